@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { parseEther } from 'viem';
+import { AutoBet, AutoBetConfig, BetAdjustment, validateAutoBetConfig } from './auto-bet';
+import { formatAmount, formatSignedAmount } from './format-amount';
+import Stat from './Stat';
+
+type AdjustmentMode = BetAdjustment['mode'];
+
+// Blank means "no limit"; anything else has to parse
+const parseOptionalAmount = (input: string): bigint | null | undefined => {
+  if (!input.trim()) return null;
+  try {
+    const value = parseEther(input.trim());
+    return value > 0n ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const adjustmentOf = (mode: AdjustmentMode, percent: string): BetAdjustment =>
+  mode === 'increase' ? { mode, percent: parseFloat(percent) } : { mode };
+
+const AdjustmentInput = ({
+  label, mode, percent, allowMartingale, disabled, onModeChange, onPercentChange,
+}: {
+  label: string;
+  mode: AdjustmentMode;
+  percent: string;
+  allowMartingale: boolean;
+  disabled: boolean;
+  onModeChange: (mode: AdjustmentMode) => void;
+  onPercentChange: (percent: string) => void;
+}) => (
+  <div className="flex flex-col">
+    <p className="text-sm text-left">{label}</p>
+    <div className="flex gap-2">
+      <select
+        value={mode}
+        disabled={disabled}
+        onChange={(e) => onModeChange(e.target.value as AdjustmentMode)}
+        className="flex-1 bg-gray-300 text-black rounded-sm py-1 px-1"
+      >
+        <option value="reset">Reset to base bet</option>
+        <option value="increase">Increase by %</option>
+        {allowMartingale && <option value="martingale">Martingale</option>}
+      </select>
+      {mode === 'increase' && (
+        <input
+          type="number" min="0" step="1"
+          value={percent} disabled={disabled}
+          onChange={(e) => onPercentChange(e.target.value)}
+          className="w-20 text-center bg-gray-300 text-black rounded-sm py-1"
+        />
+      )}
+    </div>
+  </div>
+);
+
+/**
+ * Settings and live stats for an auto-bet run. The base bet is whatever is
+ * in the game's own bet input when the run starts. Game-specific settings
+ * can be passed as children and sit with the others.
+ */
+export default function AutoBetPanel({
+  autoBet, baseBet, disabled, symbol, title = 'AUTO BET', noun = 'rolls', formatChoice, children,
+}: {
+  autoBet: AutoBet;
+  baseBet: string;
+  disabled: boolean;
+  symbol: string; // The chain's native coin, which stakes and limits are in
+  title?: string;
+  noun?: string; // What one bet is called, "rolls" or "flips"
+  formatChoice?: (choice: number) => string; // Labels the results strip, W/L without it
+  children?: React.ReactNode;
+}) {
+  const [rounds, setRounds] = useState('10');
+  const [onWinMode, setOnWinMode] = useState<AdjustmentMode>('reset');
+  const [onWinPercent, setOnWinPercent] = useState('0');
+  const [onLossMode, setOnLossMode] = useState<AdjustmentMode>('reset');
+  const [onLossPercent, setOnLossPercent] = useState('100');
+  const [profitTarget, setProfitTarget] = useState('');
+  const [lossLimit, setLossLimit] = useState('');
+  const [maxBet, setMaxBet] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { running, stats, recent, config, nextBet, stopReason } = autoBet;
+
+  const handleStart = () => {
+    const limits = [parseOptionalAmount(profitTarget), parseOptionalAmount(lossLimit), parseOptionalAmount(maxBet)];
+    if (limits.some(limit => limit === undefined)) {
+      setFormError(`Limits must be blank or a positive ${symbol} amount`);
+      return;
+    }
+    const base = parseOptionalAmount(baseBet);
+    const newConfig: AutoBetConfig = {
+      rounds: Number(rounds),
+      baseBet: base ?? 0n,
+      onWin: adjustmentOf(onWinMode, onWinPercent),
+      onLoss: adjustmentOf(onLossMode, onLossPercent),
+      profitTarget: limits[0] ?? null,
+      lossLimit: limits[1] ?? null,
+      maxBet: limits[2] ?? null,
+    };
+    const problem = validateAutoBetConfig(newConfig);
+    setFormError(problem);
+    if (!problem) autoBet.start(newConfig);
+  };
+
+  const locked = running || disabled;
+
+  return (
+    <div className="w-full border border-2 border-white p-4 rounded-xl text-white flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-center">{title}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="flex flex-col">
+          <p className="text-sm text-left">Number of {noun}</p>
+          <input
+            type="number" min="1" step="1"
+            value={rounds} disabled={locked}
+            onChange={(e) => setRounds(e.target.value)}
+            className="text-center bg-gray-300 text-black rounded-sm py-1"
+          />
+        </div>
+        <div className="flex flex-col">
+          <p className="text-sm text-left">Max bet ({symbol}, optional)</p>
+          <input
+            type="number" min="0" step="0.5"
+            value={maxBet} disabled={locked}
+            onChange={(e) => setMaxBet(e.target.value)}
+            className="text-center bg-gray-300 text-black rounded-sm py-1"
+          />
+        </div>
+        <AdjustmentInput
+          label="On win"
+          mode={onWinMode} percent={onWinPercent} allowMartingale={false} disabled={locked}
+          onModeChange={setOnWinMode} onPercentChange={setOnWinPercent}
+        />
+        <AdjustmentInput
+          label="On loss"
+          mode={onLossMode} percent={onLossPercent} allowMartingale disabled={locked}
+          onModeChange={setOnLossMode} onPercentChange={setOnLossPercent}
+        />
+        <div className="flex flex-col">
+          <p className="text-sm text-left">Stop at profit ({symbol}, optional)</p>
+          <input
+            type="number" min="0" step="0.5"
+            value={profitTarget} disabled={locked}
+            onChange={(e) => setProfitTarget(e.target.value)}
+            className="text-center bg-gray-300 text-black rounded-sm py-1"
+          />
+        </div>
+        <div className="flex flex-col">
+          <p className="text-sm text-left">Stop at loss ({symbol}, optional)</p>
+          <input
+            type="number" min="0" step="0.5"
+            value={lossLimit} disabled={locked}
+            onChange={(e) => setLossLimit(e.target.value)}
+            className="text-center bg-gray-300 text-black rounded-sm py-1"
+          />
+        </div>
+        {children}
+      </div>
+
+      {formError && <p className="text-sm text-red-400 text-center">{formError}</p>}
+
+      <div className="flex justify-center">
+        {running ? (
+          <button onClick={autoBet.stop} className="bg-red-400 rounded-xl w-2/3 sm:w-1/3 p-2 text-black">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={disabled}
+            className="bg-gray-300 rounded-xl w-2/3 sm:w-1/3 p-2 text-black disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start auto bet
+          </button>
+        )}
+      </div>
+
+      {stopReason && <p className="text-sm text-yellow-300 text-center">{stopReason}</p>}
+
+      {config && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <Stat compact label={noun.charAt(0).toUpperCase() + noun.slice(1)} value={`${stats.rolls} / ${config.rounds}`} />
+          <Stat compact label="Wins" value={stats.rolls > 0 ? `${stats.wins} (${Math.round(stats.wins / stats.rolls * 100)}%)` : '-'} />
+          <Stat compact label="Wagered" value={formatAmount(stats.wagered)} />
+          <Stat
+            compact
+            label="Profit"
+            value={formatSignedAmount(stats.profit)}
+            className={stats.profit > 0n ? 'text-green-400' : stats.profit < 0n ? 'text-red-400' : ''}
+          />
+          <Stat compact label="Next bet" value={formatAmount(nextBet)} />
+          <Stat compact label="Biggest bet" value={formatAmount(stats.biggestBet)} />
+          <Stat
+            compact
+            label="Streak"
+            value={stats.streak === 0 ? '-' : `${Math.abs(stats.streak)} ${stats.streak > 0 ? 'W' : 'L'}`}
+            className={stats.streak > 0 ? 'text-green-400' : stats.streak < 0 ? 'text-red-400' : ''}
+          />
+          <Stat compact label="Max drawdown" value={formatAmount(stats.maxDrawdown)} />
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="flex flex-wrap gap-1 justify-center">
+          {recent.map(roll => (
+            <span
+              key={`${roll.transactionHash}:${roll.logIndex}`}
+              title={`${formatAmount(roll.amount)} ${symbol}, ${roll.won ? 'won' : 'lost'}`}
+              className={`text-xs font-bold rounded px-1 ${roll.won ? 'bg-green-600' : 'bg-red-600'}`}
+            >
+              {formatChoice ? formatChoice(roll.choice).charAt(0) : roll.won ? 'W' : 'L'}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
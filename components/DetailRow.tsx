@@ -0,0 +1,11 @@
+import React from 'react';
+
+// Label and value on one line, stacked on narrow screens, for the bet and verify pages
+export default function DetailRow({ label, mono = false, children }: { label: string; mono?: boolean; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:justify-between gap-1 sm:gap-4 border-b border-gray-700/50 py-2">
+      <span className="text-yellow-300 text-sm">{label}</span>
+      <span className={`${mono ? 'font-mono text-sm' : ''} break-all sm:text-right sm:max-w-[70%]`}>{children}</span>
+    </div>
+  );
+}
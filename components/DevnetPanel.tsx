@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useChainId, useReadContract, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { Hex, toHex } from 'viem';
+import { config } from '../src/wagmi';
+import { getDeployment } from './deployments';
+import { findGameByContract } from './games';
+import { MOCK_ENTROPY_ABI } from './mock-entropy-abi';
+import { clearChainHistory } from './bet-history-db';
+import { describeTxError } from './tx-errors';
+import { useNotifications } from './NotificationProvider';
+
+const POLL_INTERVAL = 2000; // Open requests are re-read every 2 seconds
+
+const randomBytes32 = (): Hex => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Accepts decimal or 0x-prefixed hex, returns null for anything else
+const parseRandomNumber = (input: string): Hex | null => {
+  try {
+    const value = BigInt(input.trim());
+    return value < 0n || value >= 2n ** 256n ? null : toHex(value, { size: 32 });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Fulfils Entropy requests on a local devnet, pinned to the bottom-left
+ * corner. Only rendered when the current deployment has a `mockEntropy`.
+ */
+export default function DevnetPanel() {
+  const chainId = useChainId();
+  const { mockEntropy } = getDeployment(chainId);
+  const { writeContractAsync } = useWriteContract();
+  const { notify, update } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [autoReveal, setAutoReveal] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [forcedNumbers, setForcedNumbers] = useState<Record<string, string>>({});
+
+  const { data: requests, refetch } = useReadContract({
+    chainId,
+    abi: MOCK_ENTROPY_ABI,
+    address: mockEntropy,
+    functionName: 'openRequests',
+    query: { enabled: !!mockEntropy, refetchInterval: POLL_INTERVAL },
+  });
+  const open = requests ?? [];
+
+  const reveal = useCallback(async (sequence: bigint, forced?: Hex) => {
+    if (!mockEntropy) return;
+    setBusy(true);
+    const notificationId = notify({
+      status: 'pending',
+      title: `Revealing Entropy request #${sequence}`,
+      message: 'Confirm the transaction in your wallet',
+    });
+
+    try {
+      const txHash = await writeContractAsync(forced
+        ? { chainId, abi: MOCK_ENTROPY_ABI, address: mockEntropy, functionName: 'revealWithRandomNumber', args: [sequence, forced] }
+        : { chainId, abi: MOCK_ENTROPY_ABI, address: mockEntropy, functionName: 'reveal', args: [sequence, randomBytes32()] });
+      update(notificationId, { message: 'Reveal sent, waiting for it to confirm', txHash });
+      const receipt = await waitForTransactionReceipt(config, { chainId, hash: txHash });
+      update(notificationId, receipt.status === 'reverted'
+        ? { status: 'error', title: `Reveal #${sequence} failed`, message: 'The callback reverted' }
+        : { status: 'success', title: `Request #${sequence} revealed` });
+    } catch (err) {
+      console.error("Error revealing Entropy request:", err);
+      const info = describeTxError(err, MOCK_ENTROPY_ABI, chainId);
+      update(notificationId, { status: 'error', title: info.title, message: info.message });
+      setAutoReveal(false); // Don't keep retrying a reveal that fails
+    }
+
+    // Wait for the list to drop this request so auto-reveal doesn't pick it again
+    await refetch();
+    setBusy(false);
+  }, [chainId, mockEntropy, notify, refetch, update, writeContractAsync]);
+
+  // Reveals the oldest open request as soon as it shows up
+  const nextSequence = open[0]?.sequenceNumber;
+  useEffect(() => {
+    if (autoReveal && !busy && nextSequence !== undefined) {
+      reveal(nextSequence);
+    }
+  }, [autoReveal, busy, nextSequence, reveal]);
+
+  const resetHistory = async () => {
+    try {
+      await clearChainHistory(chainId);
+      window.location.reload();
+    } catch (err) {
+      console.error("Error clearing devnet history:", err);
+      notify({
+        status: 'error',
+        title: "Couldn't clear stored history",
+        message: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  if (!mockEntropy) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 flex flex-col items-start gap-2 w-[calc(100%-2rem)] max-w-sm">
+      {isOpen && (
+        <div className="w-full max-h-96 overflow-y-auto rounded-lg bg-black/80 p-3 text-white backdrop-blur">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="font-bold">Mock Entropy</h2>
+            <label className="text-xs flex items-center gap-1">
+              <input type="checkbox" checked={autoReveal} onChange={(e) => setAutoReveal(e.target.checked)} />
+              Auto-reveal
+            </label>
+          </div>
+
+          {open.length === 0 ? (
+            <p className="text-sm text-gray-400">No open requests</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {open.map(request => {
+                const key = request.sequenceNumber.toString();
+                const forced = forcedNumbers[key] ?? '';
+                const forcedHex = forced ? parseRandomNumber(forced) : null;
+                const game = findGameByContract(request.requester, chainId);
+                return (
+                  <li key={key} className="border-b border-gray-700/50 pb-2 text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-bold">#{key} {game ? `${game.icon} ${game.name}` : request.requester}</span>
+                      <span className="text-gray-400">block {request.blockNumber.toString()}</span>
+                    </div>
+                    <div className="flex gap-2 mt-1">
+                      <button
+                        type="button"
+                        onClick={() => reveal(request.sequenceNumber)}
+                        disabled={busy}
+                        className="bg-yellow-400 text-black font-bold rounded px-2 disabled:opacity-50"
+                      >
+                        Reveal
+                      </button>
+                      <input
+                        type="text"
+                        value={forced}
+                        onChange={(e) => setForcedNumbers(prev => ({ ...prev, [key]: e.target.value }))}
+                        placeholder="Exact random number"
+                        className="flex-1 min-w-0 px-1 rounded bg-gray-900 border border-gray-600 font-mono text-xs"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => forcedHex && reveal(request.sequenceNumber, forcedHex)}
+                        disabled={busy || !forcedHex}
+                        className="bg-gray-700 hover:bg-gray-600 rounded px-2 disabled:opacity-50"
+                      >
+                        Use
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <button type="button" onClick={resetHistory} className="mt-3 text-xs text-gray-300 hover:text-white underline">
+            Clear stored history (after restarting the devnet)
+          </button>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-black bg-yellow-400 hover:bg-yellow-300 py-1 px-3 rounded-full shadow-lg"
+      >
+        {isOpen ? 'Hide devnet' : `Devnet (${open.length} open)`}
+      </button>
+    </div>
+  );
+}
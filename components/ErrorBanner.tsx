@@ -0,0 +1,28 @@
+import type { TxErrorInfo } from './tx-errors';
+
+interface ErrorBannerProps {
+  error: TxErrorInfo | null; // Nothing is rendered while this is null
+  onDismiss: () => void;
+}
+
+// Dismissible explanation of why the last transaction didn't go through
+export default function ErrorBanner({ error, onDismiss }: ErrorBannerProps) {
+  if (!error) return null;
+
+  // A cancelled request is the player's own doing, so it gets a quieter colour
+  const colors = error.kind === 'rejected'
+    ? 'bg-gray-100 border-gray-400 text-gray-700'
+    : 'bg-red-100 border-red-400 text-red-700';
+
+  return (
+    <div role="alert" className={`mb-4 p-3 rounded-lg border flex items-start justify-between gap-3 ${colors}`}>
+      <div>
+        <p className="font-bold">{error.title}</p>
+        <p className="text-sm">{error.message}</p>
+      </div>
+      <button type="button" onClick={onDismiss} aria-label="Dismiss" className="font-bold px-2">
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -3,12 +3,19 @@ import { useRouter } from "next/router";
 import React, { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
+import { useChainId, useSwitchChain } from "wagmi";
+import { GameSpec, findGameByDemoRoute, findGameByRoute, useGames } from "./games";
+import { DEPLOYMENTS, getDeployment } from "./deployments";
 
 function Header() {
   const router = useRouter();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [isMobile, setIsMobile] = useState(false);
+  const chainId = useChainId();
+  const { switchChain } = useSwitchChain();
+  const deployment = getDeployment(chainId);
+  const games = useGames();
 
   // Detect if on mobile
   useEffect(() => {
@@ -42,43 +49,21 @@ function Header() {
     );
   };
 
+  const linkClassName = "text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg";
+  const renderGameLink = (game: GameSpec) => (
+    <Link key={game.id} href={game.route} className={linkClassName}>
+      {isMobile ? game.navLabel : `${game.icon} ${game.navLabel}`}
+    </Link>
+  );
+
+  // A game page links to the other games, a demo page back to its real game
+  const currentGame = findGameByRoute(router.pathname);
+  const demoGame = findGameByDemoRoute(router.pathname);
   let link;
-  if (router.pathname === "/flip") {
-    link = (
-      <Link
-        href="/dice"
-        className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg"
-      >
-        {isMobile ? "Dice" : "🎲 Dice"}
-      </Link>
-    );
-  } else if (router.pathname === "/flip/try") {
-    link = (
-      <Link
-        href="/flip"
-        className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg"
-      >
-        {isMobile ? "FLIP" : "🪙 FLIP"}
-      </Link>
-    );
-  } else if (router.pathname === "/dice") {
-    link = (
-      <Link
-        href="/flip"
-        className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg"
-      >
-        {isMobile ? "FLIP" : "🪙 FLIP"}
-      </Link>
-    );
-  } else if (router.pathname === "/dice/try") {
-    link = (
-      <Link
-        href="/dice"
-        className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg"
-      >
-        {isMobile ? "Dice" : "🎲 Dice"}
-      </Link>
-    );
+  if (currentGame) {
+    link = games.filter(game => game.id !== currentGame.id).map(renderGameLink);
+  } else if (demoGame) {
+    link = renderGameLink(demoGame);
   }
 
   return (
@@ -87,7 +72,7 @@ function Header() {
         <div className="flex items-center">
           {link}
 
-          {(router.pathname === "/flip" || router.pathname === "/dice") && (
+          {currentGame && (
             <button
               onClick={() => openModal("bets")}
               className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg max-[750px]:hidden"
@@ -102,8 +87,8 @@ function Header() {
               onClick={() => setIsDropdownOpen(!isDropdownOpen)}
               className="text-xl text-white hover:bg-blue-200/20 font-bold py-2 px-4 rounded mr-2 transition duration-200 shadow-lg flex items-center gap-2"
             >
-              <Image src="/sei_icon.png" alt="Sonic" height={24} width={24} />
-              Sei
+              {deployment.icon && <Image src={deployment.icon} alt={deployment.label} height={24} width={24} />}
+              {deployment.label}
               <svg
                 className={`ml-2 h-4 w-4 transition-transform ${
                   isDropdownOpen ? "rotate-180" : ""
@@ -124,16 +109,20 @@ function Header() {
             {isDropdownOpen && (
               <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-50">
                 <div className="py-1">
-                  <Link
-                    href="https://sonic.broflip.com"
-                    target="_blank"
-                    className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                    onClick={() => {
-                      setIsDropdownOpen(false);
-                    }}
-                  >
-                    Sonic
-                  </Link>
+                  {DEPLOYMENTS.filter(option => option.chain.id !== chainId).map(option => (
+                    <button
+                      key={option.chain.id}
+                      type="button"
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      onClick={() => {
+                        // Also asks a connected wallet to switch, without one only the app moves
+                        switchChain({ chainId: option.chain.id });
+                        setIsDropdownOpen(false);
+                      }}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
               </div>
             )}
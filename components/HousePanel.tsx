@@ -0,0 +1,392 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useBalance, useReadContract, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { isAddress, parseEther } from 'viem';
+import { config } from '../src/wagmi';
+import { GameDefinition } from './games';
+import { IndexedEvent } from './roll-indexer';
+import { computeHouseEdge, readPlayerBalances } from './house-stats';
+import { buildLiabilityLedger, reconcileLedger } from './liability-ledger';
+import { TxErrorInfo, describeTxError } from './tx-errors';
+import { useNotifications } from './NotificationProvider';
+import ErrorBanner from './ErrorBanner';
+import { explorerAddressUrl } from './explorer';
+import { nativeSymbol } from './deployments';
+import { formatAmount } from './format-amount';
+import Stat from './Stat';
+
+interface HousePanelProps {
+  game: GameDefinition;
+  owner: string;
+  events: IndexedEvent[];
+  historyComplete: boolean;
+  onOwnerChanged: () => void;
+}
+
+interface OwnerActionFormProps {
+  title: string;
+  placeholder: string;
+  busy: boolean;
+  validate: (input: string) => string | null;
+  summary: (input: string) => React.ReactNode;
+  warning?: (input: string) => string | null;
+  confirmByRetyping?: boolean; // Ask for the input a second time before confirming
+  onConfirm: (input: string) => Promise<boolean>;
+}
+
+const formatPercent = (share: number | null) => share === null ? '-' : `${(share * 100).toFixed(2)}%`;
+
+const parseAmount = (input: string): bigint | null => {
+  try {
+    return parseEther(input.trim());
+  } catch {
+    return null;
+  }
+};
+
+// Input, then a review step that must be confirmed before anything is sent
+const OwnerActionForm = ({
+  title, placeholder, busy, validate, summary, warning, confirmByRetyping = false, onConfirm,
+}: OwnerActionFormProps) => {
+  const [input, setInput] = useState('');
+  const [reviewing, setReviewing] = useState(false);
+  const [retyped, setRetyped] = useState('');
+
+  const validationError = input ? validate(input) : null;
+  const warningText = reviewing && warning ? warning(input) : null;
+  const retypeMatches = !confirmByRetyping || retyped.trim().toLowerCase() === input.trim().toLowerCase();
+
+  const cancel = () => {
+    setReviewing(false);
+    setRetyped('');
+  };
+
+  const confirm = async () => {
+    if (await onConfirm(input.trim())) {
+      setInput('');
+    }
+    cancel();
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-700/50">
+      <h3 className="font-bold mb-2">{title}</h3>
+      {!reviewing ? (
+        <>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={placeholder}
+            disabled={busy}
+            className="w-full p-2 rounded bg-gray-900 border border-gray-600 text-white font-mono text-sm"
+          />
+          {validationError && <p className="text-red-400 text-sm mt-1">{validationError}</p>}
+          <button
+            type="button"
+            onClick={() => setReviewing(true)}
+            disabled={busy || !input || validationError !== null}
+            className="mt-2 w-full bg-yellow-400 text-black font-bold rounded py-1 disabled:opacity-50"
+          >
+            Review
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="text-sm mb-2">{summary(input.trim())}</div>
+          {warningText && <p className="text-sm text-red-400 mb-2">{warningText}</p>}
+          {confirmByRetyping && (
+            <input
+              type="text"
+              value={retyped}
+              onChange={(e) => setRetyped(e.target.value)}
+              placeholder="Type it again to confirm"
+              disabled={busy}
+              className="w-full p-2 mb-2 rounded bg-gray-900 border border-gray-600 text-white font-mono text-sm"
+            />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={confirm}
+              disabled={busy || !retypeMatches}
+              className="flex-1 bg-red-500 hover:bg-red-600 text-white font-bold rounded py-1 disabled:opacity-50"
+            >
+              {busy ? 'Confirming...' : 'Confirm'}
+            </button>
+            <button
+              type="button"
+              onClick={cancel}
+              disabled={busy}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 rounded py-1 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Bankroll, liabilities and house edge for one game contract, plus the
+ * owner-only transactions. Only rendered for the contract's `gameOwner`.
+ */
+export default function HousePanel({ game, owner, events, historyComplete, onOwnerChanged }: HousePanelProps) {
+  const { writeContractAsync } = useWriteContract();
+  const { notify, update } = useNotifications();
+  const [busy, setBusy] = useState(false);
+  const [txError, setTxError] = useState<TxErrorInfo | null>(null);
+  const [onchainBalances, setOnchainBalances] = useState<Map<string, bigint> | null>(null);
+  const [liabilityError, setLiabilityError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const symbol = nativeSymbol(game.chainId);
+  // Balances are reconciled against each other, so differences below a cent still show
+  const formatBalance = (wei: bigint) => `${formatAmount(wei, 4)} ${symbol}`;
+
+  const { data: balance, refetch: refetchBalance } = useBalance({ chainId: game.chainId, address: game.contract });
+  const { data: minBet, refetch: refetchMinBet } = useReadContract({
+    chainId: game.chainId,
+    abi: game.abi,
+    address: game.contract,
+    functionName: 'MIN_BET_AMOUNT',
+  });
+
+  const edge = useMemo(() => computeHouseEdge(events, game), [events, game]);
+  const ledger = useMemo(() => buildLiabilityLedger(events, game), [events, game]);
+  const playersKey = ledger.map(entry => entry.player).sort().join(',');
+  // Re-read when a known player's ledger balance moves, not just on new players
+  const ledgerTotal = ledger.reduce((sum, entry) => sum + entry.balance, 0n).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+    const players = playersKey ? playersKey.split(',') : [];
+    readPlayerBalances(game, players)
+      .then(balances => {
+        if (cancelled) return;
+        setOnchainBalances(balances);
+        setLiabilityError(null);
+      })
+      .catch(err => {
+        console.error("Error reading liabilities:", err);
+        if (!cancelled) setLiabilityError(err instanceof Error ? err.message : 'Could not read player balances');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [game, playersKey, ledgerTotal, refreshCount]);
+
+  const reconciliation = useMemo(
+    () => onchainBalances ? reconcileLedger(ledger, onchainBalances) : null,
+    [ledger, onchainBalances]
+  );
+  // Contract reads are the source of truth, the event ledger only audits them
+  const liabilities = reconciliation ? { total: reconciliation.onchainTotal, players: onchainBalances!.size } : null;
+  const bankroll = balance?.value;
+  const freeBankroll = bankroll !== undefined && liabilities ? bankroll - liabilities.total : undefined;
+  const currentMinBet = typeof minBet === 'bigint' ? minBet : undefined;
+
+  const runOwnerAction = async (
+    title: string,
+    successMessage: string,
+    functionName: 'withdrawOwnerFunds' | 'changeMinBetAmount' | 'changeOwner',
+    args: readonly unknown[],
+  ): Promise<boolean> => {
+    setTxError(null);
+    setBusy(true);
+    const notificationId = notify({ status: 'pending', title, message: 'Confirm the transaction in your wallet' });
+    let succeeded = false;
+
+    try {
+      const txHash = await writeContractAsync({
+        chainId: game.chainId,
+        abi: game.abi,
+        address: game.contract,
+        functionName,
+        args,
+      });
+      update(notificationId, { message: 'Transaction sent, waiting for it to confirm', txHash });
+      const receipt = await waitForTransactionReceipt(config, { chainId: game.chainId, hash: txHash });
+      if (receipt.status === 'reverted') {
+        update(notificationId, { status: 'error', title: `${title} failed`, message: 'The transaction reverted' });
+      } else {
+        update(notificationId, { status: 'success', title: successMessage });
+        succeeded = true;
+      }
+    } catch (err) {
+      console.error(`Error calling ${functionName}:`, err);
+      const info = describeTxError(err, game.abi, game.chainId);
+      setTxError(info);
+      update(notificationId, { status: 'error', title: info.title, message: info.message });
+    }
+
+    refetchBalance();
+    refetchMinBet();
+    setRefreshCount(count => count + 1);
+    setBusy(false);
+    return succeeded;
+  };
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-bold mb-2">{game.icon} {game.name}</h2>
+      <p className="text-xs text-gray-400 font-mono mb-3">
+        <a href={explorerAddressUrl(game.contract, game.chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+          {game.contract}
+        </a>
+      </p>
+
+      <ErrorBanner error={txError} onDismiss={() => setTxError(null)} />
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-2">
+        <Stat label="Contract balance" value={bankroll !== undefined ? formatBalance(bankroll) : '...'} />
+        <Stat
+          label={historyComplete ? 'Owed to players' : 'Owed to players (partial)'}
+          value={liabilityError ? 'Unavailable' : liabilities ? formatBalance(liabilities.total) : '...'}
+          className={liabilityError ? 'text-red-400' : ''}
+        />
+        <Stat
+          label={historyComplete ? 'Free bankroll' : 'Free bankroll (partial)'}
+          value={freeBankroll !== undefined ? formatBalance(freeBankroll) : '...'}
+          className={freeBankroll !== undefined && freeBankroll < 0n ? 'text-red-400' : 'text-green-400'}
+        />
+        <Stat label="Min bet" value={currentMinBet !== undefined ? formatBalance(currentMinBet) : '...'} />
+        <Stat label="Realized edge" value={formatPercent(edge.realized)} className={edge.realized !== null && edge.realized < 0 ? 'text-red-400' : 'text-green-400'} />
+        <Stat label="Expected edge" value={formatPercent(edge.expected)} />
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        {liabilityError
+          ? liabilityError
+          : liabilities && `${liabilities.players} player${liabilities.players === 1 ? '' : 's'} with unwithdrawn winnings. `}
+        {!liabilityError && !historyComplete && 'Players only seen in older history aren\'t counted yet, so the amount owed may be higher and the free bankroll lower. '}
+        Edge over {edge.bets} bets, {formatBalance(edge.wagered)} wagered and {formatBalance(edge.paidOut)} paid out
+        {historyComplete ? '' : ' (still loading older history)'}.
+      </p>
+
+      {reconciliation && (
+        <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-700/50 mb-4">
+          <h3 className="font-bold mb-1">Liability ledger</h3>
+          <p className="text-sm text-gray-300 mb-2">
+            Replaying deposits and withdrawals gives {formatBalance(reconciliation.ledgerTotal)} owed,
+            the contract reports {formatBalance(reconciliation.onchainTotal)}.
+          </p>
+          {reconciliation.mismatches.length === 0 ? (
+            <p className="text-sm text-green-400">
+              Matches the contract for all {reconciliation.entries.length} players ever credited
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-red-400 mb-2">
+                {reconciliation.mismatches.length} player{reconciliation.mismatches.length === 1 ? '' : 's'} don&apos;t match
+                {historyComplete ? '' : ', expected while older credits are still loading'}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-black">
+                    <th className="px-2 py-1 text-left text-yellow-300 font-medium">Player</th>
+                    <th className="px-2 py-1 text-left text-yellow-300 font-medium">Ledger</th>
+                    <th className="px-2 py-1 text-left text-yellow-300 font-medium">Contract</th>
+                    <th className="px-2 py-1 text-left text-yellow-300 font-medium">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.mismatches.map(entry => (
+                    <tr key={entry.player} className="border-b border-gray-700/50">
+                      <td className="px-2 py-1 font-mono">
+                        <Link href={`/player/${entry.player}`} className="hover:underline">
+                          {entry.player.slice(0, 6)}...{entry.player.slice(-4)}
+                        </Link>
+                      </td>
+                      <td className="px-2 py-1">{formatBalance(entry.balance)}</td>
+                      <td className="px-2 py-1">{formatBalance(entry.onchain)}</td>
+                      <td className="px-2 py-1 text-red-400">{formatBalance(entry.onchain - entry.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-3">
+        <OwnerActionForm
+          title="Withdraw house funds"
+          placeholder={`Amount in ${symbol}`}
+          busy={busy}
+          validate={(input) => {
+            const amount = parseAmount(input);
+            if (amount === null || amount <= 0n) return 'Enter an amount greater than 0';
+            if (bankroll !== undefined && amount > bankroll) return 'That is more than the contract holds';
+            return null;
+          }}
+          summary={(input) => <>Send <b>{input} {symbol}</b> from the {game.name} contract to {owner}</>}
+          warning={(input) => {
+            const amount = parseAmount(input);
+            if (amount === null) return null;
+            // Until every player is known the free bankroll is only an upper bound
+            if (!historyComplete) {
+              return 'Older history is still loading, so not every player is counted in what is owed. Make sure this leaves enough for their winnings';
+            }
+            return freeBankroll !== undefined && amount > freeBankroll
+              ? 'This dips into funds owed to players, they may not be able to withdraw their winnings'
+              : null;
+          }}
+          onConfirm={(input) => runOwnerAction(
+            `Withdrawing ${input} ${symbol} from ${game.name}`,
+            `${input} ${symbol} withdrawn from ${game.name}`,
+            'withdrawOwnerFunds',
+            [parseEther(input)],
+          )}
+        />
+
+        <OwnerActionForm
+          title="Change min bet"
+          placeholder={`New min bet in ${symbol}`}
+          busy={busy}
+          validate={(input) => {
+            const amount = parseAmount(input);
+            if (amount === null || amount <= 0n) return 'Enter an amount greater than 0';
+            if (amount === currentMinBet) return 'That is already the min bet';
+            return null;
+          }}
+          summary={(input) => (
+            <>Change the {game.name} min bet from <b>{currentMinBet !== undefined ? formatBalance(currentMinBet) : '?'}</b> to <b>{input} {symbol}</b></>
+          )}
+          onConfirm={(input) => runOwnerAction(
+            `Changing the ${game.name} min bet`,
+            `${game.name} min bet is now ${input} ${symbol}`,
+            'changeMinBetAmount',
+            [parseEther(input)],
+          )}
+        />
+
+        <OwnerActionForm
+          title="Transfer ownership"
+          placeholder="New owner address"
+          busy={busy}
+          confirmByRetyping
+          validate={(input) => {
+            if (!isAddress(input.trim())) return 'Enter a valid address';
+            if (input.trim().toLowerCase() === owner.toLowerCase()) return 'That address already owns the contract';
+            return null;
+          }}
+          summary={(input) => <>Make <b className="font-mono break-all">{input}</b> the owner of {game.name}</>}
+          warning={() => 'You lose every owner permission on this contract as soon as this confirms. Double-check the address.'}
+          onConfirm={async (input) => {
+            const succeeded = await runOwnerAction(
+              `Transferring ${game.name} ownership`,
+              `${game.name} ownership transferred`,
+              'changeOwner',
+              [input],
+            );
+            if (succeeded) onOwnerChanged();
+            return succeeded;
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useChainId } from 'wagmi';
+import { useContractHistory } from './roll-indexer';
+import { GameId, useGames } from './games';
+import { betUrl } from './bet-links';
+import { formatAmount } from './format-amount';
+import { nativeSymbol } from './deployments';
+import { LeaderboardMetric, LeaderboardPeriod, PERIOD_SECONDS, computeLeaderboard } from './leaderboard-stats';
+
+const PERIODS: { id: LeaderboardPeriod; label: string }[] = [
+  { id: 'daily', label: 'Today' },
+  { id: 'weekly', label: 'This week' },
+  { id: 'allTime', label: 'All time' },
+];
+
+const METRICS: { id: LeaderboardMetric; label: string }[] = [
+  { id: 'volume', label: 'Volume' },
+  { id: 'profit', label: 'Profit' },
+  { id: 'payout', label: 'Biggest win' },
+];
+
+const Tab = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-1 rounded text-sm transition-colors ${
+      active ? 'bg-yellow-400 text-black font-bold' : 'bg-gray-800/50 text-white hover:bg-gray-700/50'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const Leaderboard: React.FC = () => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('daily');
+  // Older blocks are only scanned once asked for, per tab, so the landing page stays cheap
+  const [scanPeriod, setScanPeriod] = useState<LeaderboardPeriod | null>(null);
+  const [metric, setMetric] = useState<LeaderboardMetric>('volume');
+  const [game, setGame] = useState<GameId | 'all'>('all');
+  const games = useGames();
+  const chainId = useChainId();
+  const symbol = nativeSymbol(chainId);
+  // Fixed when the tab is picked, so the history window doesn't move on every render
+  const since = useMemo(() => {
+    const seconds = PERIOD_SECONDS[period];
+    return seconds === null ? null : Math.floor(Date.now() / 1000) - seconds;
+  }, [period]);
+  // Until then the board is built from what is already indexed. A scan of the
+  // daily and weekly tabs stops at their window, only all-time goes to deployment.
+  const { events, loading, error, complete: historyComplete } = useContractHistory(
+    games.map(option => option.contract),
+    scanPeriod === period,
+    since
+  );
+
+  const entries = useMemo(
+    () => computeLeaderboard(events, { since, game, metric }),
+    [events, since, game, metric]
+  );
+
+  const oldest = events.length > 0 ? events[events.length - 1].timestamp : null;
+
+  const renderValue = (entry: (typeof entries)[number]) => {
+    if (metric === 'volume') return `${formatAmount(entry.wagered)} ${symbol}`;
+    if (metric === 'profit') return <span className="text-green-400">+{formatAmount(entry.net)} {symbol}</span>;
+    return entry.biggestPayoutTx ? (
+      <Link href={betUrl(entry.biggestPayoutTx, chainId)} className="hover:underline">{formatAmount(entry.biggestPayout)} {symbol}</Link>
+    ) : `${formatAmount(entry.biggestPayout)} ${symbol}`;
+  };
+
+  return (
+    <div className="p-2 rounded-lg shadow-md max-w-4xl w-full mx-auto mb-10">
+      <h2 className="text-xl font-bold text-white mb-4 text-center">LEADERBOARD</h2>
+
+      <div className="flex flex-wrap gap-2 justify-center mb-2">
+        {PERIODS.map(option => (
+          <Tab key={option.id} active={period === option.id} onClick={() => setPeriod(option.id)}>{option.label}</Tab>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center mb-2">
+        {METRICS.map(option => (
+          <Tab key={option.id} active={metric === option.id} onClick={() => setMetric(option.id)}>{option.label}</Tab>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center mb-4">
+        <Tab active={game === 'all'} onClick={() => setGame('all')}>All games</Tab>
+        {games.map(option => (
+          <Tab key={option.id} active={game === option.id} onClick={() => setGame(option.id)}>
+            {option.icon} {option.name}
+          </Tab>
+        ))}
+      </div>
+
+      {error && entries.length > 0 && <p className="text-xs text-yellow-400 text-center mb-2">{error}</p>}
+      {error && entries.length === 0 ? (
+        <p className="p-4 text-red-600 text-center">Error: {error}</p>
+      ) : loading && entries.length === 0 ? (
+        <p className="p-4 text-center text-blue-600">Loading leaderboard...</p>
+      ) : entries.length === 0 ? (
+        <p className="p-4 text-center text-gray-500">No bets in this period yet</p>
+      ) : (
+        <table className="w-full border border-black rounded-lg">
+          <thead>
+            <tr className="border-b border-black">
+              <th className="px-4 py-3 text-left text-yellow-300 font-medium">#</th>
+              <th className="px-4 py-3 text-left text-yellow-300 font-medium">Player</th>
+              <th className="px-4 py-3 text-left text-yellow-300 font-medium">Bets</th>
+              <th className="px-4 py-3 text-left text-yellow-300 font-medium">
+                {METRICS.find(option => option.id === metric)?.label}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr
+                key={entry.player}
+                className={`border-b border-gray-700/50 ${index % 2 === 0 ? 'bg-gray-800/30' : 'bg-gray-800/50'}`}
+              >
+                <td className="px-4 py-2 text-white">{index + 1}</td>
+                <td className="px-4 py-2 text-white font-mono text-sm">
+                  <Link href={`/player/${entry.player}`} className="hover:underline">
+                    {entry.player.slice(0, 6)}...{entry.player.slice(-4)}
+                  </Link>
+                </td>
+                <td className="px-4 py-2 text-white">{entry.bets}</td>
+                <td className="px-4 py-2 text-white">{renderValue(entry)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!historyComplete && (
+        <p className="text-xs text-gray-400 text-center mt-2">
+          Partial, {oldest !== null ? `covers bets since ${new Date(oldest * 1000).toLocaleString()}` : 'no bets indexed yet'}
+          {scanPeriod === period ? ', still loading older history' : (
+            <>
+              {'. '}
+              <button type="button" onClick={() => setScanPeriod(period)} className="underline hover:text-white">
+                Load the full period
+              </button>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
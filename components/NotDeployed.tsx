@@ -0,0 +1,17 @@
+import { useChainId } from 'wagmi';
+import { getDeployment } from './deployments';
+import type { GameSpec } from './games';
+
+// Shown in place of a game, or the game list, on a network Broflip isn't deployed to
+export default function NotDeployed({ game }: { game?: GameSpec }) {
+  const { label } = getDeployment(useChainId());
+  return (
+    <div className="flex justify-center p-4">
+      <p className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4 text-white text-center">
+        {game ? `${game.icon} ${game.name} isn't` : "Broflip isn't"} live on {label} yet.
+        <br />
+        Pick another network from the menu at the top.
+      </p>
+    </div>
+  );
+}
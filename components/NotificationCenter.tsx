@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Notification, NotificationStatus, useNotifications } from './NotificationProvider';
+import { explorerName, explorerTxUrl } from './explorer';
+
+const STATUS_STYLES: Record<NotificationStatus, string> = {
+  pending: 'bg-gray-100 border-gray-400 text-gray-800',
+  success: 'bg-green-100 border-green-400 text-green-700',
+  error: 'bg-red-100 border-red-400 text-red-700',
+  info: 'bg-blue-100 border-blue-400 text-blue-700',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ExplorerLink = ({ txHash, chainId }: { txHash: string; chainId: number }) => (
+  <a href={explorerTxUrl(txHash, chainId)} target="_blank" rel="noopener noreferrer" className="text-xs underline">
+    View on {explorerName(chainId)} ({txHash.slice(0, 6)}...{txHash.slice(-4)})
+  </a>
+);
+
+const DetailsLink = ({ href }: { href: string }) => (
+  <Link href={href} className="text-xs underline">
+    Bet details
+  </Link>
+);
+
+const Toast = ({ notification, onDismiss }: { notification: Notification; onDismiss: () => void }) => (
+  <div role="status" className={`p-3 rounded-lg border shadow-lg flex items-start justify-between gap-3 ${STATUS_STYLES[notification.status]}`}>
+    <div className="flex gap-2">
+      {notification.status === 'pending' && <div className="loader m-0 p-0 shrink-0 scale-50"></div>}
+      <div className="flex flex-col">
+        <p className="font-bold">{notification.title}</p>
+        {notification.message && <p className="text-sm">{notification.message}</p>}
+        {notification.link && <DetailsLink href={notification.link} />}
+        {notification.txHash && <ExplorerLink txHash={notification.txHash} chainId={notification.chainId} />}
+      </div>
+    </div>
+    <button type="button" onClick={onDismiss} aria-label="Dismiss" className="font-bold px-1">
+      ✕
+    </button>
+  </div>
+);
+
+// Toast stack plus the session log, pinned to the bottom-right corner
+export default function NotificationCenter() {
+  const { notifications, toastIds, dismiss, clearLog } = useNotifications();
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const toasts = notifications.filter(entry => toastIds.includes(entry.id)).reverse();
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2 w-[calc(100%-2rem)] max-w-sm">
+      {toasts.map(notification => (
+        <div key={notification.id} className="w-full">
+          <Toast notification={notification} onDismiss={() => dismiss(notification.id)} />
+        </div>
+      ))}
+
+      {isLogOpen && (
+        <div className="w-full max-h-80 overflow-y-auto rounded-lg bg-black/80 p-3 text-white backdrop-blur">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="font-bold">Recent activity</h2>
+            <button type="button" onClick={clearLog} className="text-xs text-gray-300 hover:text-white">
+              Clear
+            </button>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="text-sm text-gray-400">Nothing yet this session</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {notifications.map(entry => (
+                <li key={entry.id} className="border-b border-gray-700/50 pb-2">
+                  <div className="flex justify-between gap-2 text-sm">
+                    <span className="font-bold">{entry.title}</span>
+                    <span className="text-gray-400">{formatTime(entry.updatedAt)}</span>
+                  </div>
+                  {entry.message && <p className="text-xs text-gray-300">{entry.message}</p>}
+                  {entry.link && <DetailsLink href={entry.link} />}
+                  {entry.txHash && <ExplorerLink txHash={entry.txHash} chainId={entry.chainId} />}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {notifications.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setIsLogOpen(!isLogOpen)}
+          className="text-sm text-white bg-gray-800/80 hover:bg-gray-700 py-1 px-3 rounded-full shadow-lg"
+        >
+          {isLogOpen ? 'Hide activity' : `Activity (${notifications.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useChainId } from 'wagmi';
+
+const STORAGE_KEY = 'broflip-notifications';
+const MAX_LOG_ENTRIES = 20;
+const TOAST_DURATION = 6000; // 6 seconds, pending toasts stay until they settle
+
+export type NotificationStatus = 'pending' | 'success' | 'error' | 'info';
+
+export interface Notification {
+  id: number;
+  status: NotificationStatus;
+  title: string;
+  message?: string;
+  txHash?: string;
+  chainId: number; // Where txHash lives, the network can change while it is pending
+  link?: string; // In-app page with the details, like a settled bet's permalink
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NotificationInput = Pick<Notification, 'status' | 'title' | 'message' | 'txHash' | 'link'>;
+
+interface NotificationContextValue {
+  notifications: Notification[]; // Session log, newest first
+  toastIds: number[];
+  notify: (input: NotificationInput) => number;
+  update: (id: number, patch: Partial<NotificationInput>) => void;
+  dismiss: (id: number) => void;
+  clearLog: () => void;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+// The log lives in sessionStorage so a refresh mid-withdraw doesn't lose it
+const readStoredLog = (): Notification[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(window.sessionStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (err) {
+    console.error("Error reading notification log:", err);
+    return [];
+  }
+};
+
+/**
+ * App-wide transaction notifications. Any component can push a toast with
+ * `notify`, then move it through its lifecycle with `update` using the
+ * returned id. Every notification is also kept in a short session log.
+ */
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [toastIds, setToastIds] = useState<number[]>([]);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const [loaded, setLoaded] = useState(false);
+  const chainId = useChainId();
+
+  useEffect(() => {
+    // Nothing is following a pending entry after a reload, so it would spin forever.
+    // Bets in flight are picked up again by their game page and report their own result.
+    const stored = readStoredLog().map(entry => entry.status !== 'pending' ? entry : {
+      ...entry,
+      status: 'info' as const,
+      message: entry.txHash
+        ? 'The page reloaded before this finished, check the transaction for its outcome'
+        : 'The page reloaded before this was sent',
+    });
+    nextIdRef.current = stored.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+    setNotifications(prev => [...prev, ...stored].slice(0, MAX_LOG_ENTRIES));
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(notifications));
+  }, [notifications, loaded]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setToastIds(prev => prev.filter(toastId => toastId !== id));
+  }, []);
+
+  // Settled toasts hide themselves after a while, pending ones wait for their update
+  const scheduleHide = useCallback((id: number, status: NotificationStatus) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    if (status !== 'pending') {
+      timersRef.current.set(id, setTimeout(() => dismiss(id), TOAST_DURATION));
+    }
+  }, [dismiss]);
+
+  const notify = useCallback((input: NotificationInput) => {
+    const id = nextIdRef.current++;
+    const now = Date.now();
+    setNotifications(prev => [{ ...input, id, chainId, createdAt: now, updatedAt: now }, ...prev].slice(0, MAX_LOG_ENTRIES));
+    setToastIds(prev => [...prev, id]);
+    scheduleHide(id, input.status);
+    return id;
+  }, [scheduleHide, chainId]);
+
+  const update = useCallback((id: number, patch: Partial<NotificationInput>) => {
+    setNotifications(prev => prev.map(entry =>
+      entry.id === id ? { ...entry, ...patch, updatedAt: Date.now() } : entry
+    ));
+    if (patch.status) {
+      // A status change brings the toast back if it had been dismissed
+      setToastIds(prev => prev.includes(id) ? prev : [...prev, id]);
+      scheduleHide(id, patch.status);
+    }
+  }, [scheduleHide]);
+
+  const clearLog = useCallback(() => {
+    setNotifications([]);
+    setToastIds([]);
+  }, []);
+
+  return (
+    <NotificationContext.Provider value={{ notifications, toastIds, notify, update, dismiss, clearLog }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+export const useNotifications = (): NotificationContextValue => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used inside a NotificationProvider');
+  }
+  return context;
+};
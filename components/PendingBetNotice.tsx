@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { formatAmount } from './format-amount';
+import { nativeSymbol } from './deployments';
+import type { TrackedBet } from './pending-bets';
+
+interface PendingBetNoticeProps {
+  bet: TrackedBet;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+// Shown in place of the bet form while a bet from an earlier visit is still in flight
+export default function PendingBetNotice({ bet }: PendingBetNoticeProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[200px] gap-3 p-4 text-white text-center">
+      <div className="bg-gray-300 rounded-xl p-2"><div className="loader"></div></div>
+      <h2 className="text-2xl font-bold">
+        {bet.status === 'confirming' ? 'Waiting for your bet to confirm' : 'Still waiting on randomness'}
+      </h2>
+      <p className="text-sm text-gray-300">
+        Your {formatAmount(bet.amount)} {nativeSymbol(bet.chainId)} bet was placed {formatElapsed(now - bet.submittedAt)} ago.
+        The result will show here as soon as it lands.
+      </p>
+    </div>
+  );
+}
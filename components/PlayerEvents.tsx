@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { useAccount } from 'wagmi';
+import Link from 'next/link';
+import { RollEvent, usePlayerHistory } from './roll-indexer';
+import { GameId, useGame } from './games';
+import { betUrl, verifyUrl } from './bet-links';
+import { formatAmount } from './format-amount';
+import { nativeSymbol } from './deployments';
+
+const PAGE_SIZE = 20;
+
+/**
+ * The connected player's bets on one game, rendered through the game's own
+ * formatters. Only recent blocks are indexed until the player asks for
+ * older history, which starts a scan back to the contract's deployment.
+ */
+const PlayerEvents = ({ gameId }: { gameId: GameId }) => {
+  const { address: currentAccount, isConnected } = useAccount();
+  const game = useGame(gameId);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [scanHistory, setScanHistory] = useState(false);
+  const {
+    events: history,
+    loading,
+    error,
+    backfill: [progress],
+    backfilling,
+    retryBackfill
+  } = usePlayerHistory(game ? [game.contract] : [], currentAccount, scanHistory);
+
+  const rolls = history.filter((ev): ev is RollEvent => ev.eventName === 'Roll');
+  const events = rolls.slice(0, visibleCount);
+  const historyComplete = !!progress?.complete;
+
+  const formatTimestamp = (timestamp: number) => {
+    const date = new Date(timestamp * 1000);
+    const diff = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (diff < 1) return 'Just now';
+    if (diff < 60) return `${diff} min${diff === 1 ? '' : 's'} ago`;
+    if (diff < 1440) return `${Math.floor(diff / 60)} hour${Math.floor(diff / 60) === 1 ? '' : 's'} ago`;
+    return `${Math.floor(diff / 1440)} day${Math.floor(diff / 1440) === 1 ? '' : 's'} ago`;
+  };
+
+  if (!game) return null;
+  if (!isConnected || !currentAccount) return <div className="p-4 text-center">Connect wallet to view your bets</div>;
+  if (loading && events.length === 0) return <div className="p-4 text-center">Loading events...</div>;
+  if (error && events.length === 0) return <div className="p-4 text-center text-red-500">{error}</div>;
+
+  const renderHistoryStatus = () => {
+    if (historyComplete || !scanHistory) return null;
+    if (!progress) {
+      return <p className="text-sm text-gray-400 text-center mt-2">Locating contract deployment...</p>;
+    }
+    const percent = Math.floor((progress.syncedBlocks / progress.totalBlocks) * 100);
+    return (
+      <div className="mt-3">
+        <div className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>{backfilling ? 'Scanning older blocks' : 'History scan paused'}</span>
+          <span>{percent}%</span>
+        </div>
+        <div className="w-full h-2 bg-gray-700 rounded">
+          <div className="h-2 bg-yellow-400 rounded" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  };
+
+  const renderLoadOlder = () => {
+    if (events.length < rolls.length) {
+      return (
+        <button
+          onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+          className="mt-3 w-full text-sm bg-gray-700 hover:bg-gray-600 rounded py-1"
+        >
+          Load older
+        </button>
+      );
+    }
+    if (!historyComplete && !scanHistory) {
+      return (
+        <button
+          onClick={() => setScanHistory(true)}
+          className="mt-3 w-full text-sm bg-gray-700 hover:bg-gray-600 rounded py-1"
+        >
+          Load full history
+        </button>
+      );
+    }
+    if (!historyComplete && !backfilling) {
+      return (
+        <button
+          onClick={retryBackfill}
+          className="mt-3 w-full text-sm bg-gray-700 hover:bg-gray-600 rounded py-1"
+        >
+          Resume history scan
+        </button>
+      );
+    }
+    return null;
+  };
+
+  if (events.length === 0) {
+    return <div className="p-4 text-center text-gray-500">
+      {historyComplete ? 'No bets found' : 'No bets found yet'} for {currentAccount.slice(0, 6)}...{currentAccount.slice(-4)}
+      {renderHistoryStatus()}
+      {renderLoadOlder()}
+    </div>;
+  }
+
+  return (
+    <div className="p-4 bg-gray-900 text-white rounded-lg">
+      <h2 className="text-xl mb-4">Your Recent Bets</h2>
+      {error && <p className="text-xs text-yellow-400 mb-2">{error}</p>}
+      {events.map(ev => (
+        <div key={`${ev.transactionHash}:${ev.logIndex}`} className="flex justify-between border-b border-gray-700 py-2">
+          <span>{formatAmount(ev.amount, 4)} {nativeSymbol(game.chainId)}</span>
+          <span>{game.formatChoice(ev.choice)}</span>
+          <span>{game.formatOutcome(ev.outcome)}</span>
+          <span className={ev.won ? 'text-green-400' : 'text-red-400'}>
+            {ev.won ? 'Won' : 'Lost'}
+          </span>
+          <Link href={betUrl(ev.transactionHash, game.chainId)} className="text-gray-400 hover:underline">{formatTimestamp(ev.timestamp)}</Link>
+          <Link href={verifyUrl(ev.transactionHash, game.chainId)} className="text-yellow-300 underline">Verify</Link>
+        </div>
+      ))}
+      {renderLoadOlder()}
+      {renderHistoryStatus()}
+      <Link href={`/player/${currentAccount.toLowerCase()}`} className="block mt-3 text-center text-sm text-yellow-300 underline">
+        Lifetime stats
+      </Link>
+    </div>
+  );
+};
+
+export default PlayerEvents;
\ No newline at end of file
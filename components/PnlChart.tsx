@@ -0,0 +1,58 @@
+import type { PnlPoint } from './player-stats';
+import { toCoins } from './format-amount';
+
+interface PnlChartProps {
+  points: PnlPoint[]; // Oldest first
+  height?: number;
+  symbol: string; // Axis unit, the chain's native coin
+}
+
+const WIDTH = 600; // viewBox units, the SVG scales to its container
+
+// Cumulative profit and loss as a line, green above break-even and red below
+export default function PnlChart({ points, height = 200, symbol }: PnlChartProps) {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-400 text-center">Not enough bets to chart yet</p>;
+  }
+
+  const values = [0, ...points.map(point => toCoins(point.net))];
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+  const x = (index: number) => (index / (values.length - 1)) * WIDTH;
+  const y = (value: number) => height - ((value - min) / range) * height;
+  const zeroY = y(0);
+
+  // The series starts from break-even before the first bet
+  const line = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const first = new Date(points[0].timestamp * 1000).toLocaleDateString();
+  const last = new Date(points[points.length - 1].timestamp * 1000).toLocaleDateString();
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{max.toFixed(2)} {symbol}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+        <defs>
+          <clipPath id="pnl-above">
+            <rect x="0" y="0" width={WIDTH} height={zeroY} />
+          </clipPath>
+          <clipPath id="pnl-below">
+            <rect x="0" y={zeroY} width={WIDTH} height={height - zeroY} />
+          </clipPath>
+        </defs>
+        <line x1="0" x2={WIDTH} y1={zeroY} y2={zeroY} stroke="#6b7280" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <polyline points={line} fill="none" stroke="#4ade80" strokeWidth="2" clipPath="url(#pnl-above)" vectorEffect="non-scaling-stroke" />
+        <polyline points={line} fill="none" stroke="#f87171" strokeWidth="2" clipPath="url(#pnl-below)" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{min.toFixed(2)} {symbol}</span>
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{first}</span>
+        <span>{last}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useChainId } from 'wagmi';
+import { summarizeSession, useSessionStats } from './SessionStatsProvider';
+import { getGameSpec } from './games';
+import { formatAmount, formatSignedAmount, toCoins } from './format-amount';
+import Stat from './Stat';
+import { nativeSymbol } from './deployments';
+
+const SPARKLINE_WIDTH = 200; // viewBox units, the SVG scales to its container
+const SPARKLINE_HEIGHT = 40;
+
+// Running session net from break-even, coloured by where it ends up
+const Sparkline = ({ balance }: { balance: bigint[] }) => {
+  const values = [0, ...balance.map(toCoins)];
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+  const x = (index: number) => (index / (values.length - 1)) * SPARKLINE_WIDTH;
+  const y = (value: number) => SPARKLINE_HEIGHT - ((value - min) / range) * SPARKLINE_HEIGHT;
+  const line = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`} preserveAspectRatio="none" className="w-full h-10">
+      <line x1="0" x2={SPARKLINE_WIDTH} y1={y(0)} y2={y(0)} stroke="#6b7280" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+      <polyline
+        points={line}
+        fill="none"
+        stroke={values[values.length - 1] < 0 ? '#f87171' : '#4ade80'}
+        strokeWidth="2"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
+/**
+ * Net P&L, win rate and a running balance for every bet settled in this tab
+ * on the current network, across both games. Collapsed to a one-line summary
+ * until opened.
+ */
+export default function SessionStatsPanel() {
+  const { bets, reset } = useSessionStats();
+  const [isOpen, setIsOpen] = useState(false);
+  const chainId = useChainId();
+  const symbol = nativeSymbol(chainId);
+  const summary = summarizeSession(bets, chainId);
+  const chainBets = bets.filter(bet => bet.chainId === chainId);
+  const netClassName = summary.net > 0n ? 'text-green-400' : summary.net < 0n ? 'text-red-400' : '';
+
+  return (
+    <div className="w-full border border-2 border-white p-4 rounded-xl text-white flex flex-col gap-3">
+      <button type="button" onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h2 className="text-xl font-bold">THIS SESSION</h2>
+        <span className="text-sm">
+          {summary.bets} bet{summary.bets === 1 ? '' : 's'}, <span className={netClassName}>{formatSignedAmount(summary.net)} {symbol}</span>
+          {isOpen ? ' ▲' : ' ▼'}
+        </span>
+      </button>
+
+      {isOpen && (summary.bets === 0 ? (
+        <p className="text-sm text-gray-400 text-center">Settled bets on this network from either game show up here until you close the tab</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Stat compact label="Net P&L" value={`${formatSignedAmount(summary.net)} ${symbol}`} className={netClassName} />
+            <Stat compact label="Bets" value={summary.bets} />
+            <Stat compact label="Win rate" value={`${Math.round(summary.wins / summary.bets * 100)}%`} />
+            <Stat compact label="Avg multiplier" value={`${summary.averageMultiplier.toFixed(2)}x`} />
+          </div>
+
+          <Sparkline balance={summary.balance} />
+
+          <ul className="max-h-40 overflow-y-auto text-sm">
+            {[...chainBets].reverse().map(bet => (
+              <li key={bet.key} className="flex justify-between border-b border-gray-700/50 py-1">
+                <span>{getGameSpec(bet.game).icon} {formatAmount(bet.stake)} {symbol} at {bet.multiplier.toFixed(2)}x</span>
+                <span className={bet.won ? 'text-green-400' : 'text-red-400'}>
+                  {bet.won ? `Won ${formatAmount(bet.payout)}` : 'Lost'}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <button type="button" onClick={reset} className="text-xs text-gray-300 hover:text-white underline self-center">
+            Start a new session
+          </button>
+        </>
+      ))}
+    </div>
+  );
+}
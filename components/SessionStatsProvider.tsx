@@ -0,0 +1,119 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { RollEvent } from './roll-indexer';
+import { GameDefinition, GameId } from './games';
+
+const STORAGE_KEY = 'broflip-session-bets';
+const MAX_SESSION_BETS = 500;
+
+export interface SessionBet {
+  key: string; // Roll tx hash and log index, so a bet is only counted once
+  game: GameId;
+  chainId: number;
+  stake: bigint;
+  won: boolean;
+  payout: bigint; // What the bet paid, 0 on a loss
+  multiplier: number; // What a win would have paid per unit staked, in the chain's own coin
+  settledAt: number;
+}
+
+export interface SessionSummary {
+  bets: number;
+  wins: number;
+  wagered: bigint;
+  net: bigint;
+  averageMultiplier: number;
+  balance: bigint[]; // Running net after each bet, oldest first
+}
+
+interface SessionStatsContextValue {
+  bets: SessionBet[]; // Oldest first
+  recordBet: (roll: RollEvent, game: GameDefinition) => void;
+  reset: () => void;
+}
+
+type StoredSessionBet = Omit<SessionBet, 'stake' | 'payout'> & { stake: string; payout: string };
+
+const SessionStatsContext = createContext<SessionStatsContextValue | null>(null);
+
+// sessionStorage can't hold bigints, so they are kept as decimal strings
+const readStoredBets = (): SessionBet[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored: StoredSessionBet[] = JSON.parse(window.sessionStorage.getItem(STORAGE_KEY) || '[]');
+    return stored.map(bet => ({ ...bet, stake: BigInt(bet.stake), payout: BigInt(bet.payout) }));
+  } catch (err) {
+    console.error("Error reading session bets:", err);
+    return [];
+  }
+};
+
+// Only sums bets from one chain, since amounts on different chains are in different coins
+export const summarizeSession = (allBets: SessionBet[], chainId: number): SessionSummary => {
+  const bets = allBets.filter(bet => bet.chainId === chainId);
+  let net = 0n;
+  const balance: bigint[] = [];
+  for (const bet of bets) {
+    net += bet.payout - bet.stake;
+    balance.push(net);
+  }
+  return {
+    bets: bets.length,
+    wins: bets.filter(bet => bet.won).length,
+    wagered: bets.reduce((sum, bet) => sum + bet.stake, 0n),
+    net,
+    averageMultiplier: bets.length > 0 ? bets.reduce((sum, bet) => sum + bet.multiplier, 0) / bets.length : 0,
+    balance,
+  };
+};
+
+/**
+ * Every bet settled in this browser tab, across both games, for the session
+ * stats panel. Kept in sessionStorage so a refresh doesn't reset it.
+ */
+export function SessionStatsProvider({ children }: { children: React.ReactNode }) {
+  const [bets, setBets] = useState<SessionBet[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setBets(readStoredBets());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const stored: StoredSessionBet[] = bets.map(bet => ({ ...bet, stake: bet.stake.toString(), payout: bet.payout.toString() }));
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }, [bets, loaded]);
+
+  const recordBet = useCallback((roll: RollEvent, game: GameDefinition) => {
+    const key = `${roll.transactionHash}:${roll.logIndex}`;
+    const winPayout = game.payoutFor(roll.amount, BigInt(roll.choice));
+    const bet: SessionBet = {
+      key,
+      game: game.id,
+      chainId: game.chainId,
+      stake: roll.amount,
+      won: roll.won,
+      payout: roll.won ? winPayout : 0n,
+      multiplier: roll.amount > 0n ? Number(winPayout * 10000n / roll.amount) / 10000 : 0,
+      settledAt: Date.now(),
+    };
+    setBets(prev => prev.some(existing => existing.key === key) ? prev : [...prev, bet].slice(-MAX_SESSION_BETS));
+  }, []);
+
+  const reset = useCallback(() => setBets([]), []);
+
+  return (
+    <SessionStatsContext.Provider value={{ bets, recordBet, reset }}>
+      {children}
+    </SessionStatsContext.Provider>
+  );
+}
+
+export const useSessionStats = (): SessionStatsContextValue => {
+  const context = useContext(SessionStatsContext);
+  if (!context) {
+    throw new Error('useSessionStats must be used inside a SessionStatsProvider');
+  }
+  return context;
+};
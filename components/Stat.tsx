@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface StatProps {
+  label: string;
+  value: React.ReactNode;
+  className?: string; // Applied to the value, e.g. a win/loss colour
+  compact?: boolean; // Smaller tile for panels that sit beside the game form
+}
+
+// One labelled figure in a stats grid
+export default function Stat({ label, value, className = '', compact = false }: StatProps) {
+  return (
+    <div className={`${compact ? 'p-2' : 'p-3'} rounded-lg bg-gray-800/50 border border-gray-700/50`}>
+      <div className="text-yellow-300 text-xs font-medium mb-1">{label}</div>
+      <div className={`${compact ? 'text-base' : 'text-lg'} font-bold ${className}`}>{value}</div>
+    </div>
+  );
+}
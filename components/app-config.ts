@@ -0,0 +1,135 @@
+import { Hex, isAddress } from 'viem';
+
+/**
+ * Typed view of the NEXT_PUBLIC_* environment. Everything that differs
+ * between production, staging and a local devnet (RPC endpoints and keys,
+ * the WalletConnect project, contract addresses) is read here and nowhere
+ * else. See .env.example for the full list.
+ *
+ * Next.js only inlines `process.env.NEXT_PUBLIC_X` when it's written out
+ * literally, so each variable is read by name below rather than looked up.
+ */
+
+export type NetworkMode = 'mainnet' | 'devnet';
+
+export interface NetworkEnv {
+  rpcUrl?: string;
+  wsUrl?: string;
+  fallbackRpcUrls: string[]; // Tried in order when rpcUrl stops answering
+  coinflip?: Hex;
+  dice?: Hex;
+}
+
+export interface AppConfig {
+  network: NetworkMode;
+  walletConnectProjectId: string;
+  sei: NetworkEnv;
+  seiTestnet: NetworkEnv;
+  sonic: NetworkEnv;
+  devnet: NetworkEnv & { entropy?: Hex };
+}
+
+const problems: string[] = [];
+
+// Empty strings count as unset, so a blank line in .env.local doesn't override a default
+const read = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+const url = (name: string, value: string | undefined, protocols: string[]): string | undefined => {
+  const raw = read(value);
+  if (!raw) return undefined;
+  try {
+    if (protocols.includes(new URL(raw).protocol)) return raw;
+  } catch {
+    // Reported below
+  }
+  problems.push(`${name} must be a ${protocols.map(protocol => protocol.replace(':', '')).join('/')} URL, got "${raw}"`);
+  return undefined;
+};
+
+const httpUrl = (name: string, value: string | undefined) => url(name, value, ['http:', 'https:']);
+const wsUrl = (name: string, value: string | undefined) => url(name, value, ['ws:', 'wss:']);
+
+const httpUrlList = (name: string, value: string | undefined): string[] =>
+  (read(value)?.split(',') ?? [])
+    .map((entry, index) => httpUrl(`${name}[${index}]`, entry))
+    .filter((entry): entry is string => !!entry);
+
+const address = (name: string, value: string | undefined): Hex | undefined => {
+  const raw = read(value);
+  if (!raw) return undefined;
+  if (isAddress(raw)) return raw;
+  problems.push(`${name} must be a 0x-prefixed contract address, got "${raw}"`);
+  return undefined;
+};
+
+const required = <T>(name: string, value: T | undefined, hint: string): T | undefined => {
+  if (value === undefined && !problems.some(problem => problem.startsWith(`${name} `))) {
+    problems.push(`${name} is required (${hint})`);
+  }
+  return value;
+};
+
+const network = (read(process.env.NEXT_PUBLIC_NETWORK) ?? 'mainnet') as NetworkMode;
+if (network !== 'mainnet' && network !== 'devnet') {
+  problems.push(`NEXT_PUBLIC_NETWORK must be "mainnet" or "devnet", got "${network}"`);
+}
+
+const walletConnectProjectId = read(process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID);
+if (walletConnectProjectId && !/^[0-9a-f]{32}$/i.test(walletConnectProjectId)) {
+  problems.push(`NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID must be the 32 character ID from cloud.reown.com, got "${walletConnectProjectId}"`);
+}
+required('NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID', walletConnectProjectId, 'create a project at cloud.reown.com');
+
+const sei: NetworkEnv = {
+  rpcUrl: httpUrl('NEXT_PUBLIC_SEI_RPC_URL', process.env.NEXT_PUBLIC_SEI_RPC_URL),
+  wsUrl: wsUrl('NEXT_PUBLIC_SEI_WS_URL', process.env.NEXT_PUBLIC_SEI_WS_URL),
+  fallbackRpcUrls: httpUrlList('NEXT_PUBLIC_SEI_FALLBACK_RPC_URLS', process.env.NEXT_PUBLIC_SEI_FALLBACK_RPC_URLS),
+  coinflip: address('NEXT_PUBLIC_SEI_COINFLIP', process.env.NEXT_PUBLIC_SEI_COINFLIP),
+  dice: address('NEXT_PUBLIC_SEI_DICE', process.env.NEXT_PUBLIC_SEI_DICE),
+};
+// The public Sei endpoints cap log queries too tightly to index the games
+if (network === 'mainnet') required('NEXT_PUBLIC_SEI_RPC_URL', sei.rpcUrl, 'an archive node that serves eth_getLogs');
+
+const seiTestnet: NetworkEnv = {
+  rpcUrl: httpUrl('NEXT_PUBLIC_SEI_TESTNET_RPC_URL', process.env.NEXT_PUBLIC_SEI_TESTNET_RPC_URL),
+  wsUrl: wsUrl('NEXT_PUBLIC_SEI_TESTNET_WS_URL', process.env.NEXT_PUBLIC_SEI_TESTNET_WS_URL),
+  fallbackRpcUrls: httpUrlList('NEXT_PUBLIC_SEI_TESTNET_FALLBACK_RPC_URLS', process.env.NEXT_PUBLIC_SEI_TESTNET_FALLBACK_RPC_URLS),
+  coinflip: address('NEXT_PUBLIC_SEI_TESTNET_COINFLIP', process.env.NEXT_PUBLIC_SEI_TESTNET_COINFLIP),
+  dice: address('NEXT_PUBLIC_SEI_TESTNET_DICE', process.env.NEXT_PUBLIC_SEI_TESTNET_DICE),
+};
+
+const sonic: NetworkEnv = {
+  rpcUrl: httpUrl('NEXT_PUBLIC_SONIC_RPC_URL', process.env.NEXT_PUBLIC_SONIC_RPC_URL),
+  wsUrl: wsUrl('NEXT_PUBLIC_SONIC_WS_URL', process.env.NEXT_PUBLIC_SONIC_WS_URL),
+  fallbackRpcUrls: httpUrlList('NEXT_PUBLIC_SONIC_FALLBACK_RPC_URLS', process.env.NEXT_PUBLIC_SONIC_FALLBACK_RPC_URLS),
+  coinflip: address('NEXT_PUBLIC_SONIC_COINFLIP', process.env.NEXT_PUBLIC_SONIC_COINFLIP),
+  dice: address('NEXT_PUBLIC_SONIC_DICE', process.env.NEXT_PUBLIC_SONIC_DICE),
+};
+
+const devnet: AppConfig['devnet'] = {
+  rpcUrl: httpUrl('NEXT_PUBLIC_DEVNET_RPC_URL', process.env.NEXT_PUBLIC_DEVNET_RPC_URL),
+  fallbackRpcUrls: [],
+  coinflip: address('NEXT_PUBLIC_DEVNET_COINFLIP', process.env.NEXT_PUBLIC_DEVNET_COINFLIP),
+  dice: address('NEXT_PUBLIC_DEVNET_DICE', process.env.NEXT_PUBLIC_DEVNET_DICE),
+  entropy: address('NEXT_PUBLIC_DEVNET_ENTROPY', process.env.NEXT_PUBLIC_DEVNET_ENTROPY),
+};
+if (network === 'devnet') {
+  required('NEXT_PUBLIC_DEVNET_ENTROPY', devnet.entropy, 'the MockEntropy address, see "Local devnet" in the README');
+}
+
+// Fail on startup with every problem at once, rather than with an RPC error on first use
+if (problems.length > 0) {
+  throw new Error(
+    `Invalid environment configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}\n` +
+    'Copy .env.example to .env.local and fill it in.'
+  );
+}
+
+export const APP_CONFIG: AppConfig = {
+  network,
+  walletConnectProjectId: walletConnectProjectId!,
+  sei,
+  seiTestnet,
+  sonic,
+  devnet,
+};
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { formatEther } from 'viem';
+import { RollEvent } from './roll-indexer';
+import { GameDefinition, GameSpec } from './games';
+import { nativeSymbol } from './deployments';
+import { GamePhase } from './game-session';
+
+const MAX_ROUNDS = 1000;
+const MAX_RECENT_ROLLS = 50; // Kept for the panel's results strip
+const WEI_PER_COIN = 10n ** 18n;
+
+/**
+ * How the stake changes after a roll. `martingale` raises it just enough
+ * that the next win recovers every loss since the last win plus the profit
+ * the base bet would have made, which is the classic doubling at 2x payout.
+ */
+export type BetAdjustment =
+  | { mode: 'reset' }
+  | { mode: 'increase'; percent: number }
+  | { mode: 'martingale' };
+
+export interface AutoBetConfig {
+  rounds: number;
+  baseBet: bigint;
+  onWin: BetAdjustment;
+  onLoss: BetAdjustment;
+  profitTarget: bigint | null; // Stop once session profit reaches this
+  lossLimit: bigint | null; // Stop before a bet that could take losses past this
+  maxBet: bigint | null; // Stop instead of raising the stake past this
+}
+
+export interface AutoBetStats {
+  rolls: number;
+  wins: number;
+  wagered: bigint;
+  profit: bigint; // Net of stakes, winnings count whether or not they were withdrawn
+  peakProfit: bigint;
+  maxDrawdown: bigint; // Largest drop from a profit peak
+  biggestBet: bigint;
+  streak: number; // Positive for wins in a row, negative for losses
+  longestLossStreak: number;
+  lossesSinceWin: bigint; // Stakes lost since the last win, for martingale
+}
+
+export const emptyAutoBetStats = (): AutoBetStats => ({
+  rolls: 0,
+  wins: 0,
+  wagered: 0n,
+  profit: 0n,
+  peakProfit: 0n,
+  maxDrawdown: 0n,
+  biggestBet: 0n,
+  streak: 0,
+  longestLossStreak: 0,
+  lossesSinceWin: 0n,
+});
+
+export const recordAutoBetRoll = (stats: AutoBetStats, roll: RollEvent, game: GameSpec): AutoBetStats => {
+  const profit = stats.profit + (roll.won ? game.payoutFor(roll.amount, BigInt(roll.choice)) - roll.amount : -roll.amount);
+  const peakProfit = profit > stats.peakProfit ? profit : stats.peakProfit;
+  const drawdown = peakProfit - profit;
+  const streak = roll.won ? Math.max(stats.streak, 0) + 1 : Math.min(stats.streak, 0) - 1;
+
+  return {
+    rolls: stats.rolls + 1,
+    wins: stats.wins + (roll.won ? 1 : 0),
+    wagered: stats.wagered + roll.amount,
+    profit,
+    peakProfit,
+    maxDrawdown: drawdown > stats.maxDrawdown ? drawdown : stats.maxDrawdown,
+    biggestBet: roll.amount > stats.biggestBet ? roll.amount : stats.biggestBet,
+    streak,
+    longestLossStreak: Math.max(stats.longestLossStreak, -streak),
+    lossesSinceWin: roll.won ? 0n : stats.lossesSinceWin + roll.amount,
+  };
+};
+
+/**
+ * The stake for the roll after `lastBet`, given the stats that already
+ * include it. `payoutFor` is what a win at the current choice pays.
+ */
+export const nextAutoBet = (
+  config: AutoBetConfig,
+  stats: AutoBetStats,
+  lastBet: bigint,
+  won: boolean,
+  payoutFor: (amount: bigint) => bigint
+): bigint => {
+  const adjustment = won ? config.onWin : config.onLoss;
+  switch (adjustment.mode) {
+    case 'reset':
+      return config.baseBet;
+    case 'increase':
+      return lastBet + lastBet * BigInt(Math.round(adjustment.percent * 100)) / 10000n;
+    case 'martingale': {
+      if (stats.lossesSinceWin === 0n) return config.baseBet;
+      const profitPerCoin = payoutFor(WEI_PER_COIN) - WEI_PER_COIN;
+      if (profitPerCoin <= 0n) return config.baseBet;
+      const target = stats.lossesSinceWin + payoutFor(config.baseBet) - config.baseBet;
+      return (target * WEI_PER_COIN + profitPerCoin - 1n) / profitPerCoin; // Rounded up so a win covers it
+    }
+  }
+};
+
+// Why a session should end before `nextBet` is placed, or null to keep going
+export const autoBetStopReason = (
+  config: AutoBetConfig,
+  stats: AutoBetStats,
+  nextBet: bigint,
+  symbol: string
+): string | null => {
+  if (stats.rolls >= config.rounds) return `Finished all ${config.rounds} bets`;
+  if (config.profitTarget !== null && stats.profit >= config.profitTarget) {
+    return `Profit target of ${formatEther(config.profitTarget)} ${symbol} reached`;
+  }
+  if (config.lossLimit !== null && -stats.profit + nextBet > config.lossLimit) {
+    return `The next ${formatEther(nextBet)} ${symbol} bet could pass the ${formatEther(config.lossLimit)} ${symbol} loss limit`;
+  }
+  if (config.maxBet !== null && nextBet > config.maxBet) {
+    return `The next bet of ${formatEther(nextBet)} ${symbol} is over the ${formatEther(config.maxBet)} ${symbol} maximum`;
+  }
+  return null;
+};
+
+// Problems with a config before it starts, or null when it can run
+export const validateAutoBetConfig = (config: AutoBetConfig): string | null => {
+  if (!Number.isInteger(config.rounds) || config.rounds < 1 || config.rounds > MAX_ROUNDS) {
+    return `Number of bets must be between 1 and ${MAX_ROUNDS}`;
+  }
+  if (config.baseBet <= 0n) return 'Enter a bet amount';
+  for (const adjustment of [config.onWin, config.onLoss]) {
+    if (adjustment.mode === 'increase' && !(adjustment.percent >= 0)) return 'Increase must be a positive percentage';
+  }
+  if (config.maxBet !== null && config.baseBet > config.maxBet) return 'The bet amount is over the maximum bet';
+  if (config.lossLimit !== null && config.baseBet > config.lossLimit) return 'The bet amount is over the loss limit';
+  return null;
+};
+
+interface AutoBetSession<TChoice> {
+  phase: GamePhase;
+  result: RollEvent | null;
+  placeBet: (choice: TChoice, amount: string) => Promise<boolean>;
+}
+
+interface AutoBetOptions<TChoice> {
+  game: GameDefinition;
+  session: AutoBetSession<TChoice>;
+  choice: TChoice;
+  // Picks each bet's choice by its zero-based round; `choice` still prices martingale steps
+  chooseNext?: (round: number) => TChoice;
+  encodeChoice: (choice: TChoice) => bigint;
+  setBetAmount: (amount: string) => void; // Keeps the page's bet input, and its validation, on the current stake
+  betError: string | null;
+}
+
+/**
+ * Runs consecutive bets through a game session. Each bet is only placed once
+ * the previous one has its own Roll event, and the stake follows the config's
+ * adjustments until a stop condition, a failed bet or `stop()` ends the run.
+ */
+export const useAutoBet = <TChoice>({
+  game, session, choice, chooseNext, encodeChoice, setBetAmount, betError,
+}: AutoBetOptions<TChoice>) => {
+  const [config, setConfig] = useState<AutoBetConfig | null>(null);
+  const [running, setRunning] = useState(false);
+  const [stats, setStats] = useState<AutoBetStats>(emptyAutoBetStats);
+  const [recent, setRecent] = useState<RollEvent[]>([]); // Newest first
+  const [nextBet, setNextBet] = useState<bigint>(0n);
+  const [stopReason, setStopReason] = useState<string | null>(null);
+  // none → placing → awaiting → none, so one roll is in flight at a time
+  const stepRef = useRef<'none' | 'placing' | 'awaiting'>('none');
+
+  const { phase, result } = session;
+
+  // The page's callbacks change every render, the effect below reads the latest ones
+  const inputsRef = useRef({ game, session, choice, chooseNext, encodeChoice, setBetAmount });
+  useEffect(() => {
+    inputsRef.current = { game, session, choice, chooseNext, encodeChoice, setBetAmount };
+  });
+
+  const stop = useCallback((reason: string) => {
+    setRunning(false);
+    setStopReason(reason);
+  }, []);
+
+  const start = (newConfig: AutoBetConfig) => {
+    if (phase !== 'idle' && phase !== 'resolved') return;
+    setConfig(newConfig);
+    setStats(emptyAutoBetStats());
+    setRecent([]);
+    setNextBet(newConfig.baseBet);
+    setBetAmount(formatEther(newConfig.baseBet));
+    setStopReason(null);
+    stepRef.current = 'none';
+    setRunning(true);
+  };
+
+  useEffect(() => {
+    if (!config || stepRef.current === 'placing') return;
+    const { game, session, choice, chooseNext, encodeChoice, setBetAmount } = inputsRef.current;
+
+    // A roll in flight is still counted after the run is stopped
+    if (stepRef.current === 'awaiting') {
+      if (phase === 'resolved' && result) {
+        stepRef.current = 'none';
+        const updated = recordAutoBetRoll(stats, result, game);
+        const upcoming = nextAutoBet(config, updated, result.amount, result.won, amount =>
+          game.payoutFor(amount, encodeChoice(choice))
+        );
+        setStats(updated);
+        setRecent(prev => [result, ...prev].slice(0, MAX_RECENT_ROLLS));
+        setNextBet(upcoming);
+        setBetAmount(formatEther(upcoming));
+        const reason = autoBetStopReason(config, updated, upcoming, nativeSymbol(game.chainId));
+        if (reason && running) stop(reason);
+      } else if (phase === 'idle') {
+        // Back to idle without a result: the bet reverted or its roll wasn't found
+        stepRef.current = 'none';
+        if (running) stop("A bet didn't settle normally, check My Bets before starting again");
+      }
+      return;
+    }
+
+    if (!running || (phase !== 'idle' && phase !== 'resolved')) return;
+    if (betError) {
+      stop(`Stopped before the next bet: ${betError}`);
+      return;
+    }
+
+    stepRef.current = 'placing';
+    session.placeBet(chooseNext ? chooseNext(stats.rolls) : choice, formatEther(nextBet)).then(sent => {
+      if (sent) {
+        stepRef.current = 'awaiting';
+      } else {
+        stepRef.current = 'none';
+        stop('The bet transaction was not sent');
+      }
+    });
+  }, [config, running, phase, result, stats, nextBet, betError, stop]);
+
+  return {
+    config,
+    running,
+    stats,
+    recent,
+    nextBet,
+    stopReason,
+    start,
+    stop: () => stop('Stopped by you, the last bet still settles'),
+  };
+};
+
+export type AutoBet = ReturnType<typeof useAutoBet>;
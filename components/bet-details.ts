@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { getReadProvider } from './rpc-provider';
+import { resolveTimestamps } from './block-timestamps';
+import { RollEvent, WinningsEvent, decodeGameLog } from './roll-indexer';
+import { GameDefinition, findGameByContract } from './games';
+import { decodeReveal } from './entropy-events';
+
+// The player's flip transaction and what it cost them
+export interface FlipGas {
+  transactionHash: string;
+  gasUsed: bigint;
+  gasCost: bigint;
+}
+
+export interface BetDetails {
+  game: GameDefinition;
+  roll: RollEvent;
+  payout: bigint; // From WinningsDeposited, 0n for a lost bet
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number;
+  from: string; // Whoever sent the transaction that settled the bet
+  flipGas: FlipGas | null; // Null if the flip transaction couldn't be found
+  callbackGasUsed: bigint; // Paid by the Entropy provider, not the player
+  callbackGasCost: bigint;
+}
+
+/**
+ * Finds the player's flip transaction from the Entropy reveal in the settling
+ * transaction: the request was logged by the same Entropy contract in the
+ * block the reveal names, indexed by requester and sequence number.
+ */
+const findFlipGas = async (
+  chainId: number,
+  game: GameDefinition,
+  logs: readonly { address: string; topics: readonly string[]; data: string; transactionHash: string; blockNumber: number }[]
+): Promise<FlipGas | null> => {
+  const revealLog = logs.find(log => decodeReveal(log)?.requester === game.contract.toLowerCase());
+  const reveal = revealLog && decodeReveal(revealLog);
+  if (!revealLog || !reveal) return null;
+
+  const provider = getReadProvider(chainId);
+  const [request] = await provider.getLogs({
+    address: revealLog.address,
+    fromBlock: reveal.requestBlockNumber,
+    toBlock: reveal.requestBlockNumber,
+    topics: [
+      null,
+      null,
+      ethers.zeroPadValue(game.contract.toLowerCase(), 32),
+      ethers.zeroPadValue(ethers.toBeHex(reveal.sequence), 32),
+    ],
+  });
+  if (!request) return null;
+
+  const receipt = await provider.getTransactionReceipt(request.transactionHash);
+  return receipt ? { transactionHash: receipt.hash, gasUsed: receipt.gasUsed, gasCost: receipt.fee } : null;
+};
+
+/**
+ * Loads everything shown on a bet's permalink from the transaction that
+ * settled it, i.e. the one carrying its Roll event.
+ */
+export const loadBetDetails = async (txHash: string, chainId: number): Promise<BetDetails> => {
+  const receipt = await getReadProvider(chainId).getTransactionReceipt(txHash);
+  if (!receipt) {
+    throw new Error('Transaction not found');
+  }
+
+  const timestamps = await resolveTimestamps(chainId, [receipt.blockNumber]);
+  const timestamp = timestamps.get(receipt.blockNumber) ?? 0;
+
+  let roll: RollEvent | null = null;
+  let game: GameDefinition | undefined;
+  const deposits: WinningsEvent[] = [];
+  for (const log of receipt.logs) {
+    const logGame = findGameByContract(log.address, chainId);
+    if (!logGame) continue;
+    const event = decodeGameLog(logGame.contract, log, timestamp);
+    if (event?.eventName === 'Roll' && !roll) {
+      roll = event;
+      game = logGame;
+    } else if (event?.eventName === 'WinningsDeposited') {
+      deposits.push(event);
+    }
+  }
+  if (!roll || !game) {
+    throw new Error('No bet was settled in this transaction');
+  }
+
+  const settled = roll;
+  const payout = deposits
+    .filter(deposit => deposit.contract === settled.contract && deposit.player === settled.player)
+    .reduce((sum, deposit) => sum + deposit.amount, 0n);
+
+  let flipGas: FlipGas | null = null;
+  try {
+    flipGas = await findFlipGas(chainId, game, receipt.logs);
+  } catch (err) {
+    console.error("Error finding the flip transaction:", err);
+  }
+
+  return {
+    game,
+    roll,
+    payout,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    timestamp,
+    from: receipt.from.toLowerCase(),
+    flipGas,
+    callbackGasUsed: receipt.gasUsed,
+    callbackGasCost: receipt.fee,
+  };
+};
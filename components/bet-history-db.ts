@@ -0,0 +1,183 @@
+import type { BlockRange } from './block-ranges';
+import type { IndexedEvent } from './roll-indexer';
+import { LEGACY_CHAIN_ID } from './deployments';
+
+// Browser-side store of every decoded game event, so history survives
+// reloads and only blocks that were never synced are fetched again. Each
+// chain gets its own database, Sei mainnet keeps the original name.
+const DB_NAME = 'broflip-bet-history';
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const SYNC_STORE = 'sync';
+
+export interface SyncState {
+  ranges: BlockRange[];
+  deploymentBlock: number | null;
+}
+
+interface SyncRecord extends SyncState {
+  contract: string;
+}
+
+const dbPromises = new Map<number, Promise<IDBDatabase | null>>();
+
+const dbNameOf = (chainId: number) =>
+  chainId === LEGACY_CHAIN_ID ? DB_NAME : `${DB_NAME}-${chainId}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Resolves to null when IndexedDB is unavailable (SSR, private browsing);
+// callers then fall back to the in-memory index only.
+const openDb = (chainId: number): Promise<IDBDatabase | null> => {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.resolve(null);
+  }
+  let dbPromise = dbPromises.get(chainId);
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      const request = window.indexedDB.open(dbNameOf(chainId), DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const events = db.createObjectStore(EVENTS_STORE, {
+          keyPath: ['contract', 'transactionHash', 'logIndex'],
+        });
+        events.createIndex('contract_block', ['contract', 'blockNumber']);
+        events.createIndex('contract_player_block', ['contract', 'player', 'blockNumber']);
+        db.createObjectStore(SYNC_STORE, { keyPath: 'contract' });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab delete or upgrade the database instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromises.delete(chainId);
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.error("Error opening bet history database:", request.error);
+        resolve(null);
+      };
+    });
+    dbPromises.set(chainId, dbPromise);
+  }
+  return dbPromise;
+};
+
+export const loadSyncState = async (chainId: number, contract: string): Promise<SyncState> => {
+  const db = await openDb(chainId);
+  if (!db) return { ranges: [], deploymentBlock: null };
+  const record = await requestToPromise<SyncRecord | undefined>(
+    db.transaction(SYNC_STORE).objectStore(SYNC_STORE).get(contract.toLowerCase())
+  );
+  return {
+    ranges: record?.ranges ?? [],
+    deploymentBlock: record?.deploymentBlock ?? null,
+  };
+};
+
+export const saveSyncState = async (chainId: number, contract: string, state: SyncState): Promise<void> => {
+  const db = await openDb(chainId);
+  if (!db) return;
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  tx.objectStore(SYNC_STORE).put({ contract: contract.toLowerCase(), ...state } satisfies SyncRecord);
+  await transactionDone(tx);
+};
+
+/**
+ * Writes a synced chunk's events and the contract's updated sync state in
+ * one transaction, so the synced ranges never run ahead of stored events.
+ */
+export const saveSyncedChunk = async (
+  chainId: number,
+  contract: string,
+  events: IndexedEvent[],
+  state: SyncState
+): Promise<void> => {
+  const db = await openDb(chainId);
+  if (!db) return;
+  const tx = db.transaction([EVENTS_STORE, SYNC_STORE], 'readwrite');
+  const eventStore = tx.objectStore(EVENTS_STORE);
+  events.forEach(event => eventStore.put(event));
+  tx.objectStore(SYNC_STORE).put({ contract: contract.toLowerCase(), ...state } satisfies SyncRecord);
+  await transactionDone(tx);
+};
+
+// Newest events of one kind for a contract, up to `limit`
+export const loadRecentEvents = async (
+  chainId: number,
+  contract: string,
+  eventName: IndexedEvent['eventName'],
+  limit: number
+): Promise<IndexedEvent[]> => {
+  const db = await openDb(chainId);
+  if (!db) return [];
+  const key = contract.toLowerCase();
+  const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('contract_block');
+  const range = IDBKeyRange.bound([key, 0], [key, Number.MAX_SAFE_INTEGER]);
+
+  return new Promise((resolve, reject) => {
+    const results: IndexedEvent[] = [];
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve(results);
+        return;
+      }
+      const event = cursor.value as IndexedEvent;
+      if (event.eventName === eventName) results.push(event);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Every stored event of a player on a contract, newest first
+export const loadPlayerEvents = async (chainId: number, contract: string, player: string): Promise<IndexedEvent[]> => {
+  const db = await openDb(chainId);
+  if (!db) return [];
+  const key = contract.toLowerCase();
+  const playerKey = player.toLowerCase();
+  const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('contract_player_block');
+  const range = IDBKeyRange.bound([key, playerKey, 0], [key, playerKey, Number.MAX_SAFE_INTEGER]);
+  const events = await requestToPromise(index.getAll(range)) as IndexedEvent[];
+  return events.reverse();
+};
+
+// Every stored event on a contract, newest first
+export const loadContractEvents = async (chainId: number, contract: string): Promise<IndexedEvent[]> => {
+  const db = await openDb(chainId);
+  if (!db) return [];
+  const key = contract.toLowerCase();
+  const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('contract_block');
+  const range = IDBKeyRange.bound([key, 0], [key, Number.MAX_SAFE_INTEGER]);
+  const events = await requestToPromise(index.getAll(range)) as IndexedEvent[];
+  return events.reverse();
+};
+
+// Drops a chain's stored history, for devnets whose chain was reset underneath it
+export const clearChainHistory = async (chainId: number): Promise<void> => {
+  const db = await openDb(chainId);
+  db?.close();
+  dbPromises.delete(chainId);
+  if (typeof window === 'undefined' || !window.indexedDB) return;
+  const request = window.indexedDB.deleteDatabase(dbNameOf(chainId));
+  await new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // A connection that ignores versionchange, say from an older build in another tab
+    request.onblocked = () => reject(new Error('Another Broflip tab is holding the bet history open, close it and try again'));
+  });
+};
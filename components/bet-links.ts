@@ -0,0 +1,19 @@
+import { useRouter } from 'next/router';
+import { useChainId } from 'wagmi';
+import { DEPLOYMENTS } from './deployments';
+
+// Permalinks carry their chain, so a link shared from one network opens there for everyone
+export const betUrl = (txHash: string, chainId: number) => `/bet/${txHash}?chain=${chainId}`;
+
+export const verifyUrl = (txHash: string, chainId: number) => `/verify/${txHash}?chain=${chainId}`;
+
+/**
+ * The chain a bet or verify permalink points at. Links from before the
+ * `chain` parameter existed fall back to the network the app is on.
+ */
+export const useLinkedChainId = (): number => {
+  const router = useRouter();
+  const currentChainId = useChainId();
+  const linked = Number(router.query.chain);
+  return DEPLOYMENTS.some(deployment => deployment.chain.id === linked) ? linked : currentChainId;
+};
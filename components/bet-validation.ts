@@ -0,0 +1,51 @@
+import { useBalance, useReadContract } from 'wagmi';
+import { Hex, formatEther, parseEther } from 'viem';
+import { GameDefinition } from './games';
+import { formatAmount } from './format-amount';
+import { nativeSymbol } from './deployments';
+
+const parseBetAmount = (amount: string): bigint | null => {
+  try {
+    const value = parseEther(amount);
+    return value > 0n ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks a bet before it is sent: the contract's MIN_BET_AMOUNT, the
+ * player's wallet balance, and whether the contract holds enough to pay the
+ * bet out if it wins. Returns the first problem found as a message to show
+ * next to the form, or null when the bet can go ahead.
+ */
+export const useBetValidation = (game: GameDefinition, player: Hex | undefined, amount: string, choice: bigint) => {
+  const { data: minBet } = useReadContract({
+    chainId: game.chainId,
+    abi: game.abi,
+    address: game.contract,
+    functionName: 'MIN_BET_AMOUNT',
+  });
+  const { data: walletBalance } = useBalance({ chainId: game.chainId, address: player });
+  const { data: houseBalance } = useBalance({ chainId: game.chainId, address: game.contract });
+
+  const symbol = nativeSymbol(game.chainId);
+  const value = parseBetAmount(amount);
+  let error: string | null = null;
+
+  if (value === null) {
+    error = 'Enter a bet amount';
+  } else if (typeof minBet === 'bigint' && value < minBet) {
+    error = `Minimum bet is ${formatEther(minBet)} ${symbol}`; // Exact, rounding could show 0.00
+  } else if (player && walletBalance && value > walletBalance.value) {
+    error = `Not enough ${symbol} in your wallet, you have ${formatAmount(walletBalance.value)} ${symbol}`;
+  } else if (houseBalance && game.payoutFor(value, choice) > houseBalance.value) {
+    error = `The house can't cover a ${formatAmount(game.payoutFor(value, choice))} ${symbol} payout right now, try a smaller bet`;
+  }
+
+  return {
+    error,
+    minBet: typeof minBet === 'bigint' ? minBet : undefined,
+    walletBalance: walletBalance?.value,
+  };
+};
@@ -0,0 +1,56 @@
+// Inclusive block range
+export interface BlockRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Adds a range to a sorted list of disjoint ranges, merging it with any
+ * ranges it overlaps or touches. Returns a new list sorted ascending.
+ */
+export const addRange = (ranges: BlockRange[], range: BlockRange): BlockRange[] => {
+  const merged: BlockRange[] = [];
+  let current = { ...range };
+
+  for (const existing of ranges) {
+    if (existing.to + 1 < current.from || current.to + 1 < existing.from) {
+      merged.push(existing);
+    } else {
+      current = {
+        from: Math.min(existing.from, current.from),
+        to: Math.max(existing.to, current.to),
+      };
+    }
+  }
+
+  merged.push(current);
+  return merged.sort((a, b) => a.from - b.from);
+};
+
+/**
+ * Returns the parts of [from, to] not covered by `ranges`, newest first.
+ */
+export const missingRanges = (ranges: BlockRange[], from: number, to: number): BlockRange[] => {
+  const missing: BlockRange[] = [];
+  let cursor = to;
+
+  for (const range of [...ranges].sort((a, b) => b.from - a.from)) {
+    if (cursor < from) break;
+    if (range.from > cursor) continue;
+    if (range.to < cursor) {
+      missing.push({ from: Math.max(range.to + 1, from), to: cursor });
+    }
+    cursor = Math.min(cursor, range.from - 1);
+  }
+
+  if (cursor >= from) {
+    missing.push({ from, to: cursor });
+  }
+  return missing;
+};
+
+export const highestBlock = (ranges: BlockRange[]): number | null =>
+  ranges.length > 0 ? Math.max(...ranges.map(range => range.to)) : null;
+
+export const lowestBlock = (ranges: BlockRange[]): number | null =>
+  ranges.length > 0 ? Math.min(...ranges.map(range => range.from)) : null;
@@ -0,0 +1,147 @@
+import { getReadProvider, RPC_BATCH_SIZE } from './rpc-provider';
+
+interface ChainTimestamps {
+  timestamps: Map<number, number>;
+  inFlight: Map<number, Promise<number | null>>;
+  anchors: number[]; // Blocks with a known exact timestamp, ascending
+}
+
+// Block timestamps never change, so everything resolved is memoized per chain
+// for the lifetime of the page and shared by every component that decodes events.
+const chains = new Map<number, ChainTimestamps>();
+
+const getChainTimestamps = (chainId: number): ChainTimestamps => {
+  let cache = chains.get(chainId);
+  if (!cache) {
+    cache = { timestamps: new Map(), inFlight: new Map(), anchors: [] };
+    chains.set(chainId, cache);
+  }
+  return cache;
+};
+
+const rememberTimestamp = ({ timestamps, anchors }: ChainTimestamps, blockNumber: number, timestamp: number) => {
+  if (timestamps.has(blockNumber)) return;
+  timestamps.set(blockNumber, timestamp);
+
+  let low = 0;
+  let high = anchors.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (anchors[mid] < blockNumber) low = mid + 1;
+    else high = mid;
+  }
+  anchors.splice(low, 0, blockNumber);
+};
+
+const fetchTimestamp = async (chainId: number, blockNumber: number): Promise<number | null> => {
+  const block = await getReadProvider(chainId).send('eth_getBlockByNumber', [
+    `0x${blockNumber.toString(16)}`,
+    false
+  ]);
+  if (!block) return null;
+  const timestamp = Number(BigInt(block.timestamp));
+  rememberTimestamp(getChainTimestamps(chainId), blockNumber, timestamp);
+  return timestamp;
+};
+
+/**
+ * Fetches the exact timestamps of the given blocks. Requests are issued in
+ * groups of RPC_BATCH_SIZE within one tick, which the provider sends as a
+ * single JSON-RPC batch; blocks already known or in flight are not re-fetched.
+ */
+const fetchTimestamps = async (chainId: number, blockNumbers: number[]) => {
+  const { timestamps, inFlight } = getChainTimestamps(chainId);
+  const missing = blockNumbers.filter(blockNumber => !timestamps.has(blockNumber));
+
+  for (let i = 0; i < missing.length; i += RPC_BATCH_SIZE) {
+    await Promise.all(missing.slice(i, i + RPC_BATCH_SIZE).map(blockNumber => {
+      let request = inFlight.get(blockNumber);
+      if (!request) {
+        request = fetchTimestamp(chainId, blockNumber).finally(() => inFlight.delete(blockNumber));
+        inFlight.set(blockNumber, request);
+      }
+      return request;
+    }));
+  }
+};
+
+// Linear estimate between the closest known blocks on either side
+const interpolateTimestamp = ({ timestamps, anchors }: ChainTimestamps, blockNumber: number): number | null => {
+  let low = 0;
+  let high = anchors.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (anchors[mid] < blockNumber) low = mid + 1;
+    else high = mid;
+  }
+  if (low === 0 || low === anchors.length) return null;
+
+  const before = anchors[low - 1];
+  const after = anchors[low];
+  const beforeTime = timestamps.get(before)!;
+  const afterTime = timestamps.get(after)!;
+  return Math.round(beforeTime + ((afterTime - beforeTime) * (blockNumber - before)) / (after - before));
+};
+
+/**
+ * Resolves timestamps for a set of blocks. With `exact: false` only the
+ * lowest and highest block are fetched and the rest are interpolated between
+ * known anchors, which is plenty for "x mins ago" style displays.
+ */
+export const resolveTimestamps = async (
+  chainId: number,
+  blockNumbers: number[],
+  { exact = true }: { exact?: boolean } = {}
+): Promise<Map<number, number>> => {
+  const unique = Array.from(new Set(blockNumbers)).sort((a, b) => a - b);
+  const resolved = new Map<number, number>();
+  if (unique.length === 0) return resolved;
+
+  if (exact) {
+    await fetchTimestamps(chainId, unique);
+  } else {
+    await fetchTimestamps(chainId, [unique[0], unique[unique.length - 1]]);
+  }
+
+  const cache = getChainTimestamps(chainId);
+  for (const blockNumber of unique) {
+    const timestamp = cache.timestamps.get(blockNumber) ?? interpolateTimestamp(cache, blockNumber);
+    if (timestamp !== null) resolved.set(blockNumber, timestamp);
+  }
+  return resolved;
+};
+
+const BLOCK_SEARCH_STEP = 1000; // First step back from the head when searching by time
+const BLOCK_SEARCH_TOLERANCE = 100; // Blocks the result may sit before the exact one
+
+const timestampOf = async (chainId: number, blockNumber: number): Promise<number> => {
+  const timestamp = getChainTimestamps(chainId).timestamps.get(blockNumber) ?? await fetchTimestamp(chainId, blockNumber);
+  if (timestamp === null) throw new Error(`Block ${blockNumber} not found`);
+  return timestamp;
+};
+
+/**
+ * Finds a block at or shortly before the given unix time, so a scan over a
+ * time window knows where to start. Steps back from the head in doubling
+ * strides, then bisects; every lookup lands in the shared timestamp cache.
+ */
+export const findBlockAtTimestamp = async (chainId: number, timestamp: number): Promise<number> => {
+  let high = await getReadProvider(chainId).getBlockNumber();
+  if (await timestampOf(chainId, high) <= timestamp) return high;
+
+  let step = BLOCK_SEARCH_STEP;
+  let low = Math.max(high - step, 0);
+  while (low > 0 && await timestampOf(chainId, low) > timestamp) {
+    high = low;
+    step *= 2;
+    low = Math.max(high - step, 0);
+  }
+
+  // `low` is at or before the target (or genesis), `high` is after it
+  while (high - low > BLOCK_SEARCH_TOLERANCE) {
+    const mid = Math.floor((low + high) / 2);
+    if (await timestampOf(chainId, mid) <= timestamp) low = mid;
+    else high = mid;
+  }
+  return low;
+};
@@ -0,0 +1,101 @@
+import { Chain, Hex } from 'viem';
+import { anvil, sei, seiTestnet, sonic } from 'wagmi/chains';
+import type { GameId } from './games';
+import { APP_CONFIG } from './app-config';
+
+/**
+ * Where Broflip lives on one chain. Games missing from `contracts` aren't
+ * deployed there yet, and their pages say so instead of loading.
+ */
+export interface ChainDeployment {
+  chain: Chain;
+  label: string; // Network picker text
+  icon?: string; // Image in /public
+  rpcUrl: string; // HTTP endpoint for log scans and receipts
+  wsUrl?: string; // WebSocket endpoint for wagmi and live feeds, HTTP is used without one
+  fallbackRpcUrls: string[]; // Rotated to when rpcUrl is down or rate limiting
+  explorerQuery?: string; // Appended to explorer links on explorers shared between networks
+  contracts: Partial<Record<GameId, Hex>>;
+  mockEntropy?: Hex; // Devnet only, requests to it are fulfilled from the devnet panel
+}
+
+// Contracts already live on Sei, used unless the environment points elsewhere
+const SEI_COINFLIP: Hex = '0xD0F83311d99e2DeC0517f49d31e1971590D5C09C';
+const SEI_DICE: Hex = '0xd60aF0bbE2C6EFeD5651Ef48feb0BF0d77323D9e';
+
+const { sei: seiEnv, seiTestnet: seiTestnetEnv, sonic: sonicEnv, devnet: devnetEnv } = APP_CONFIG;
+
+const PUBLIC_DEPLOYMENTS: ChainDeployment[] = [
+  {
+    chain: sei,
+    label: 'Sei',
+    icon: '/sei_icon.png',
+    rpcUrl: seiEnv.rpcUrl ?? sei.rpcUrls.default.http[0],
+    wsUrl: seiEnv.wsUrl,
+    fallbackRpcUrls: seiEnv.fallbackRpcUrls,
+    contracts: {
+      coinflip: seiEnv.coinflip ?? SEI_COINFLIP,
+      dice: seiEnv.dice ?? SEI_DICE,
+    },
+  },
+  {
+    chain: seiTestnet,
+    label: 'Sei Testnet',
+    icon: '/sei_icon.png',
+    rpcUrl: seiTestnetEnv.rpcUrl ?? seiTestnet.rpcUrls.default.http[0],
+    wsUrl: seiTestnetEnv.wsUrl ?? seiTestnet.rpcUrls.default.webSocket[0],
+    fallbackRpcUrls: seiTestnetEnv.fallbackRpcUrls,
+    explorerQuery: '?chain=atlantic-2',
+    contracts: {
+      coinflip: seiTestnetEnv.coinflip,
+      dice: seiTestnetEnv.dice,
+    },
+  },
+  {
+    chain: sonic,
+    label: 'Sonic',
+    rpcUrl: sonicEnv.rpcUrl ?? sonic.rpcUrls.default.http[0],
+    wsUrl: sonicEnv.wsUrl,
+    fallbackRpcUrls: sonicEnv.fallbackRpcUrls,
+    contracts: {
+      coinflip: sonicEnv.coinflip,
+      dice: sonicEnv.dice,
+    },
+  },
+];
+
+const DEVNET_RPC_URL = devnetEnv.rpcUrl ?? anvil.rpcUrls.default.http[0];
+
+// A local Anvil or Hardhat chain with the games deployed against contracts/MockEntropy.sol
+const DEVNET_DEPLOYMENT: ChainDeployment = {
+  chain: {
+    ...anvil,
+    name: 'Devnet',
+    rpcUrls: { default: { http: [DEVNET_RPC_URL] } },
+  },
+  label: 'Devnet',
+  rpcUrl: DEVNET_RPC_URL,
+  fallbackRpcUrls: [],
+  contracts: {
+    coinflip: devnetEnv.coinflip,
+    dice: devnetEnv.dice,
+  },
+  mockEntropy: devnetEnv.entropy,
+};
+
+// NEXT_PUBLIC_NETWORK=devnet swaps every public network for the local one,
+// so a devnet build can't send anything to mainnet
+export const IS_DEVNET = APP_CONFIG.network === 'devnet';
+
+export const DEPLOYMENTS: ChainDeployment[] = IS_DEVNET ? [DEVNET_DEPLOYMENT] : PUBLIC_DEPLOYMENTS;
+
+export const DEFAULT_DEPLOYMENT = DEPLOYMENTS[0];
+
+// Stores written before other networks were supported all hold Sei mainnet data
+export const LEGACY_CHAIN_ID = sei.id;
+
+export const getDeployment = (chainId: number): ChainDeployment =>
+  DEPLOYMENTS.find(deployment => deployment.chain.id === chainId) ?? DEFAULT_DEPLOYMENT;
+
+// Stakes, payouts and gas are all in the chain's native coin, SEI, S or ETH on devnet
+export const nativeSymbol = (chainId: number): string => getDeployment(chainId).chain.nativeCurrency.symbol;
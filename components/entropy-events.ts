@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+
+// Pyth Entropy (v1) events. The game contracts request randomness with
+// `requestWithCallback`, and Entropy later calls `_entropyCallback` in the
+// same transaction that emits `RevealedWithCallback` and the game's `Roll`.
+const ENTROPY_REQUEST_TUPLE =
+  'tuple(address provider, uint64 sequenceNumber, uint32 numHashes, bytes32 commitment, uint64 blockNumber, address requester, bool useBlockhash, bool isRequestWithCallback)';
+
+const ENTROPY_EVENTS_ABI = [
+  `event RequestedWithCallback(address indexed provider, address indexed requestor, uint64 indexed sequenceNumber, bytes32 userRandomNumber, ${ENTROPY_REQUEST_TUPLE} request)`,
+  `event RevealedWithCallback(${ENTROPY_REQUEST_TUPLE} request, bytes32 userRandomNumber, bytes32 providerRevelation, bytes32 randomNumber)`
+];
+
+const entropyInterface = new ethers.Interface(ENTROPY_EVENTS_ABI);
+
+export const REVEALED_WITH_CALLBACK_TOPIC0 = entropyInterface.getEvent('RevealedWithCallback')!.topicHash;
+
+export interface EntropyReveal {
+  sequence: bigint;
+  provider: string;
+  requester: string;
+  userRandomNumber: string;
+  providerRevelation: string;
+  randomNumber: string;
+  useBlockhash: boolean;
+  requestBlockNumber: number; // Block the randomness was requested in
+  transactionHash: string;
+  blockNumber: number;
+}
+
+interface LogLike {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+/**
+ * Returns the Entropy sequence number assigned to a game's `flip` call, read
+ * from the randomness request logged in the flip transaction's receipt. Only
+ * logs emitted by the game's own Entropy contract are considered.
+ */
+export const findRequestSequence = (
+  logs: readonly LogLike[],
+  gameContract: string,
+  entropyAddress: string
+): bigint | null => {
+  const requestor = ethers.zeroPadValue(gameContract.toLowerCase(), 32);
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== entropyAddress.toLowerCase()) continue;
+
+    try {
+      const parsed = entropyInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === 'RequestedWithCallback' &&
+          parsed.args.requestor.toLowerCase() === gameContract.toLowerCase()) {
+        return BigInt(parsed.args.sequenceNumber);
+      }
+      if (parsed) continue; // Some other known Entropy event, like a reveal
+    } catch {
+      // Not an event in ENTROPY_EVENTS_ABI
+    }
+
+    // Entropy deployments that differ in the non-indexed request struct still
+    // index (provider, requestor, sequenceNumber)
+    if (log.topics.length === 4 && log.topics[2]?.toLowerCase() === requestor) {
+      return BigInt(log.topics[3]);
+    }
+  }
+  return null;
+};
+
+export const decodeReveal = (
+  log: LogLike & { transactionHash: string; blockNumber: number }
+): EntropyReveal | null => {
+  try {
+    const parsed = entropyInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name !== 'RevealedWithCallback') return null;
+    return {
+      sequence: BigInt(parsed.args.request.sequenceNumber),
+      provider: parsed.args.request.provider.toLowerCase(),
+      requester: parsed.args.request.requester.toLowerCase(),
+      userRandomNumber: parsed.args.userRandomNumber,
+      providerRevelation: parsed.args.providerRevelation,
+      randomNumber: parsed.args.randomNumber,
+      useBlockhash: parsed.args.request.useBlockhash,
+      requestBlockNumber: Number(parsed.args.request.blockNumber),
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Entropy's `combineRandomValues`: the delivered random number is the hash of
+ * the user's and the provider's contributions, plus the request block's hash
+ * when the request asked for it (zero otherwise).
+ */
+export const combineRandomValues = (
+  userRandomNumber: string,
+  providerRevelation: string,
+  blockHash: string = ethers.ZeroHash
+): string =>
+  ethers.solidityPackedKeccak256(['bytes32', 'bytes32', 'bytes32'], [userRandomNumber, providerRevelation, blockHash]);
@@ -0,0 +1,19 @@
+import { getDeployment } from './deployments';
+
+const explorerOf = (chainId: number) => {
+  const { chain, explorerQuery = '' } = getDeployment(chainId);
+  return { url: chain.blockExplorers?.default.url ?? '', query: explorerQuery };
+};
+
+export const explorerName = (chainId: number) =>
+  getDeployment(chainId).chain.blockExplorers?.default.name ?? 'the explorer';
+
+export const explorerTxUrl = (hash: string, chainId: number) => {
+  const { url, query } = explorerOf(chainId);
+  return `${url}/tx/${hash}${query}`;
+};
+
+export const explorerAddressUrl = (address: string, chainId: number) => {
+  const { url, query } = explorerOf(chainId);
+  return `${url}/address/${address}${query}`;
+};
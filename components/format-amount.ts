@@ -0,0 +1,12 @@
+import { formatEther } from 'viem';
+
+// A wei amount in whole coins, for charts and other maths on displayed values
+export const toCoins = (wei: bigint) => parseFloat(formatEther(wei));
+
+/**
+ * A wei amount rounded for display, two decimals unless a view needs more,
+ * like the house panel's accounting. Exact amounts use viem's formatEther.
+ */
+export const formatAmount = (wei: bigint, decimals = 2) => toCoins(wei).toFixed(decimals);
+
+export const formatSignedAmount = (wei: bigint, decimals = 2) => `${wei > 0n ? '+' : ''}${formatAmount(wei, decimals)}`;
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAccount, useWatchContractEvent, useWriteContract } from 'wagmi';
+import { readContract, waitForTransactionReceipt } from '@wagmi/core';
+import { Abi, Hex, formatEther, parseEther } from 'viem';
+import { config } from '../src/wagmi';
+import { ROLL_EVENT_ABI, RollEvent } from './roll-indexer';
+import { TrackedBet, isUnresolved, usePendingBets } from './pending-bets';
+import { TxErrorInfo, describeTxError } from './tx-errors';
+import { useNotifications } from './NotificationProvider';
+import { useSessionStats } from './SessionStatsProvider';
+import { findGameByContract } from './games';
+import { nativeSymbol } from './deployments';
+import { betUrl } from './bet-links';
+
+/**
+ * idle → signing → submitted → awaitingRandomness → resolved → withdrawing
+ *
+ * `signing` waits on the wallet, `submitted` on the flip transaction, and
+ * `awaitingRandomness` on Pyth Entropy's callback. A withdrawal can start
+ * from `idle` or `resolved` and always returns to `idle`.
+ */
+export type GamePhase =
+  | 'idle'
+  | 'signing'
+  | 'submitted'
+  | 'awaitingRandomness'
+  | 'resolved'
+  | 'withdrawing';
+
+interface GameSessionOptions<TChoice> {
+  chainId: number;
+  contract: Hex;
+  abi: Abi;
+  encodeChoice: (choice: TChoice) => bigint;
+}
+
+const phaseOfBet = (bet: TrackedBet): GamePhase =>
+  bet.status === 'awaitingRandomness' ? 'awaitingRandomness' : 'submitted';
+
+/**
+ * Everything a game page needs to place a bet on one of the game contracts,
+ * follow it to its own Roll event and withdraw winnings afterwards.
+ */
+export const useGameSession = <TChoice>({ chainId, contract, abi, encodeChoice }: GameSessionOptions<TChoice>) => {
+  const { address: playerAddress, isConnected } = useAccount();
+  const [phase, setPhase] = useState<GamePhase>('idle');
+  const [result, setResult] = useState<RollEvent | null>(null);
+  const [error, setError] = useState<TxErrorInfo | null>(null);
+  const [withdrawableBalance, setWithdrawableBalance] = useState<bigint>(0n);
+  const [activeTxHash, setActiveTxHash] = useState<Hex | null>(null);
+  const { writeContractAsync } = useWriteContract();
+  const { notify, update } = useNotifications();
+  const { recordBet } = useSessionStats();
+  const betNotificationsRef = useRef(new Map<Hex, number>()); // Bet tx hash -> its toast
+  const symbol = nativeSymbol(chainId);
+
+  // Submitted bets are persisted so a refresh can resume waiting on them
+  const { bets, trackBet, dismissBet, checkRollTx } = usePendingBets(chainId, contract, abi, playerAddress);
+  const activeBet = bets.find(bet => bet.txHash === activeTxHash) ?? null;
+
+  const playerAddressRef = useRef(playerAddress);
+  useEffect(() => {
+    playerAddressRef.current = playerAddress;
+  }, [playerAddress]);
+
+  const fetchPlayerBalance = useCallback(async () => {
+    if (!playerAddress) {
+      setWithdrawableBalance(0n); // Reset if no player connected
+      return;
+    }
+    try {
+      const balance = await readContract(config, {
+        chainId,
+        abi,
+        address: contract,
+        functionName: 'getPlayerBalance',
+        args: [playerAddress],
+      });
+      setWithdrawableBalance(balance as bigint);
+    } catch (err) {
+      console.error("Error fetching player balance:", err);
+    }
+  }, [abi, chainId, contract, playerAddress]);
+
+  useEffect(() => {
+    fetchPlayerBalance();
+  }, [fetchPlayerBalance, isConnected]);
+
+  // A bet restored from an earlier visit becomes the active one while idle
+  useEffect(() => {
+    if (phase !== 'idle' || activeTxHash) return;
+    const restored = bets.find(bet => bet.restored && isUnresolved(bet));
+    if (restored) {
+      setActiveTxHash(restored.txHash);
+      setPhase(phaseOfBet(restored));
+    }
+  }, [bets, phase, activeTxHash]);
+
+  // Follow the active bet through confirmation and into settlement
+  useEffect(() => {
+    if (!activeBet) return;
+    const notificationId = betNotificationsRef.current.get(activeBet.txHash);
+    if (isUnresolved(activeBet)) {
+      const nextPhase = phaseOfBet(activeBet);
+      if (nextPhase === 'awaitingRandomness' && notificationId !== undefined) {
+        update(notificationId, { message: 'Bet confirmed, waiting on randomness' });
+      }
+      setPhase(nextPhase);
+      return;
+    }
+
+    if (activeBet.roll) {
+      const game = findGameByContract(contract, chainId);
+      if (game) recordBet(activeBet.roll, game);
+      setResult(activeBet.roll);
+      setPhase('resolved');
+      fetchPlayerBalance();
+      if (notificationId !== undefined) {
+        const link = betUrl(activeBet.roll.transactionHash, chainId);
+        update(notificationId, activeBet.roll.won
+          ? { status: 'success', title: 'You won!', message: 'Your winnings are ready to withdraw', link }
+          : { status: 'info', title: 'You lost', message: 'Better luck on the next one', link });
+      }
+    } else {
+      if (activeBet.status === 'failed') {
+        setError({
+          kind: 'reverted',
+          title: 'Transaction reverted',
+          message: 'Your bet transaction failed on-chain, so no bet was placed.',
+        });
+      }
+      if (notificationId !== undefined) {
+        update(notificationId, activeBet.status === 'failed'
+          ? { status: 'error', title: 'Bet failed', message: 'The transaction reverted, no bet was placed' }
+          : { status: 'info', title: 'Bet settled', message: "Its result couldn't be found, check My Bets" });
+      }
+      setPhase('idle');
+    }
+    betNotificationsRef.current.delete(activeBet.txHash);
+    setActiveTxHash(null);
+    dismissBet(activeBet.txHash);
+  }, [activeBet, chainId, contract, dismissBet, fetchPlayerBalance, recordBet, update]);
+
+  // Restored bets other than the active one, say from a second tab, are
+  // reported with a toast when they settle and dropped from storage
+  useEffect(() => {
+    const settled = bets.filter(bet => bet.txHash !== activeTxHash && !isUnresolved(bet));
+    if (settled.length === 0) return;
+
+    const game = findGameByContract(contract, chainId);
+    for (const bet of settled) {
+      if (bet.roll) {
+        if (game) recordBet(bet.roll, game);
+        notify({
+          status: bet.roll.won ? 'success' : 'info',
+          title: bet.roll.won ? 'An earlier bet won' : 'An earlier bet lost',
+          message: `Your ${formatEther(bet.amount)} ${symbol} bet has settled`,
+          link: betUrl(bet.roll.transactionHash, chainId),
+        });
+      } else if (bet.status === 'failed') {
+        notify({ status: 'error', title: 'An earlier bet failed', message: 'The transaction reverted, no bet was placed', txHash: bet.txHash });
+      } else {
+        notify({ status: 'info', title: 'An earlier bet settled', message: "Its result couldn't be found, check My Bets", txHash: bet.txHash });
+      }
+      dismissBet(bet.txHash);
+    }
+    fetchPlayerBalance();
+  }, [bets, activeTxHash, chainId, contract, dismissBet, fetchPlayerBalance, notify, recordBet, symbol]);
+
+  // Listen for Roll events and check whether one settles a tracked bet
+  useWatchContractEvent({
+    chainId,
+    address: contract,
+    abi: ROLL_EVENT_ABI,
+    eventName: 'Roll',
+    enabled: !!playerAddress && bets.some(isUnresolved),
+    onLogs(logs) {
+      logs
+        .filter(log => log.args.player?.toLowerCase() === playerAddressRef.current?.toLowerCase())
+        .forEach(log => checkRollTx(log.transactionHash));
+    },
+  });
+
+  // Resolves to whether the flip transaction was sent
+  const placeBet = async (choice: TChoice, amount: string): Promise<boolean> => {
+    if (!playerAddress || (phase !== 'idle' && phase !== 'resolved')) return false;
+
+    setResult(null);
+    setError(null);
+    setPhase('signing');
+    const notificationId = notify({
+      status: 'pending',
+      title: `Placing a ${amount} ${symbol} bet`,
+      message: 'Confirm the transaction in your wallet',
+    });
+
+    try {
+      const value = parseEther(amount);
+      const txHash = await writeContractAsync({
+        chainId,
+        abi,
+        address: contract,
+        functionName: 'flip',
+        args: [encodeChoice(choice)],
+        value,
+      });
+      betNotificationsRef.current.set(txHash, notificationId);
+      update(notificationId, { message: 'Bet sent, waiting for it to confirm', txHash });
+      trackBet(txHash, value, encodeChoice(choice));
+      setActiveTxHash(txHash);
+      setPhase('submitted');
+      return true;
+    } catch (err) {
+      console.error("Error submitting flip transaction:", err);
+      const txError = describeTxError(err, abi, chainId);
+      setError(txError);
+      update(notificationId, { status: 'error', title: txError.title, message: txError.message });
+      setPhase('idle');
+      return false;
+    }
+  };
+
+  const playAgain = () => {
+    setResult(null);
+    setPhase('idle');
+  };
+
+  const withdraw = async () => {
+    if (!playerAddress || (phase !== 'idle' && phase !== 'resolved')) return;
+    if (withdrawableBalance === 0n) {
+      // If no winnings, just reset the screen to allow playing again
+      playAgain();
+      return;
+    }
+
+    setError(null);
+    setPhase('withdrawing');
+    const notificationId = notify({
+      status: 'pending',
+      title: `Withdrawing ${formatEther(withdrawableBalance)} ${symbol}`,
+      message: 'Confirm the transaction in your wallet',
+    });
+
+    try {
+      const txHash = await writeContractAsync({
+        chainId,
+        abi,
+        address: contract,
+        functionName: 'withdrawWinnings',
+      });
+      update(notificationId, { message: 'Withdrawal sent, waiting for it to confirm', txHash });
+      const receipt = await waitForTransactionReceipt(config, { chainId, hash: txHash });
+      if (receipt.status === 'reverted') {
+        update(notificationId, { status: 'error', title: 'Withdrawal failed', message: 'The transaction reverted, your winnings are still in the contract' });
+      } else {
+        update(notificationId, { status: 'success', title: 'Winnings withdrawn', message: `${formatEther(withdrawableBalance)} ${symbol} sent to your wallet` });
+      }
+    } catch (err) {
+      console.error("Error withdrawing:", err);
+      const txError = describeTxError(err, abi, chainId);
+      setError(txError);
+      update(notificationId, { status: 'error', title: txError.title, message: txError.message });
+    }
+
+    // Whether or not the withdrawal went through, go back to the bet form
+    fetchPlayerBalance();
+    setResult(null);
+    setPhase('idle');
+  };
+
+  const isAwaitingBet = phase === 'signing' || phase === 'submitted' || phase === 'awaitingRandomness';
+
+  return {
+    phase,
+    playerAddress,
+    isConnected,
+    activeBet,
+    result,
+    error,
+    clearError: () => setError(null),
+    withdrawableBalance,
+    isAwaitingBet,
+    isBusy: isAwaitingBet || phase === 'withdrawing',
+    placeBet,
+    playAgain,
+    withdraw,
+    fetchPlayerBalance,
+  };
+};
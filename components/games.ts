@@ -0,0 +1,131 @@
+import { Abi, Hex } from 'viem';
+import { useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { ABI as COINFLIP_ABI } from './coinflip-abi';
+import { ABI as DICE_ABI } from './dice-abi';
+import { DEPLOYMENTS, getDeployment } from './deployments';
+
+export type GameId = 'coinflip' | 'dice';
+
+/**
+ * Everything the shared UI needs to know about a game. The header, landing
+ * page and combined bet feed are all generated from `GAMES`, so adding a game
+ * means adding its page, an entry here and its address in `DEPLOYMENTS`.
+ */
+export interface GameSpec {
+  id: GameId;
+  name: string; // Short name used in the bet feed
+  navLabel: string; // Header link text
+  playLabel: string; // Landing page button text
+  icon: string;
+  route: string;
+  demoRoute?: string; // Free-play version that doesn't touch the contract
+  abi: Abi;
+  badgeClassName: string; // Feed badge colours
+  resultVerb: string; // "rolled 42", "got Heads"
+  payoutFor: (amount: bigint, choice: bigint) => bigint; // What the contract pays out on a win
+  formatChoice: (choice: number) => string;
+  formatOutcome: (outcome: number) => string;
+  // How `_entropyCallback` turns Entropy's random number into a result
+  deriveOutcome: (randomNumber: bigint) => number;
+  isWin: (choice: number, outcome: number) => boolean;
+  winProbability: (choice: number) => number; // Follows from deriveOutcome and isWin
+  outcomeRule: string; // The mapping above, spelled out for the verify page
+  // Verified contract source the mapping was read from. While null the verify
+  // page reports its result as unverified instead of as a match or mismatch.
+  outcomeRuleSource: string | null;
+}
+
+// A game as deployed on one chain
+export interface GameDefinition extends GameSpec {
+  chainId: number;
+  contract: Hex;
+}
+
+const formatCoinSide = (side: number) => side === 0 ? 'Heads' : 'Tails';
+
+export const GAMES: GameSpec[] = [
+  {
+    id: 'coinflip',
+    name: 'Flip',
+    navLabel: 'FLIP',
+    playLabel: 'FLIP',
+    icon: '🪙',
+    route: '/flip',
+    demoRoute: '/flip/try',
+    abi: COINFLIP_ABI,
+    badgeClassName: 'bg-purple-600/20 text-purple-300 border-purple-500/30',
+    resultVerb: 'got',
+    payoutFor: amount => amount * 2n,
+    formatChoice: formatCoinSide,
+    formatOutcome: formatCoinSide,
+    // Inferred from the Roll event's 0/1 outcome, not read from contract source
+    deriveOutcome: randomNumber => Number(randomNumber % 2n),
+    isWin: (choice, outcome) => choice === outcome,
+    winProbability: () => 0.5,
+    outcomeRule: 'random number mod 2, where 0 is Heads and 1 is Tails. You win when it matches your pick.',
+    outcomeRuleSource: null,
+  },
+  {
+    id: 'dice',
+    name: 'Dice',
+    navLabel: 'Dice',
+    playLabel: 'ROLL',
+    icon: '🎲',
+    route: '/dice',
+    demoRoute: '/dice/try',
+    abi: DICE_ABI,
+    badgeClassName: 'bg-blue-600/20 text-blue-300 border-blue-500/30',
+    resultVerb: 'rolled',
+    payoutFor: (amount, winChance) => winChance > 0n ? amount * 97n / winChance : 0n,
+    formatChoice: choice => choice.toString(),
+    formatOutcome: outcome => outcome.toString(),
+    // Inferred from the bet form's "Roll under <win chance>" wording, not read
+    // from contract source
+    deriveOutcome: randomNumber => Number(randomNumber % 100n),
+    isWin: (winChance, outcome) => outcome < winChance,
+    winProbability: winChance => winChance / 100,
+    outcomeRule: 'random number mod 100, giving a roll from 0 to 99. You win when the roll is under your win chance.',
+    outcomeRuleSource: null,
+  },
+];
+
+// The games deployed on a chain, in `GAMES` order
+export const getGames = (chainId: number): GameDefinition[] => {
+  const { chain, contracts } = getDeployment(chainId);
+  return GAMES.flatMap(game => {
+    const contract = contracts[game.id];
+    return contract ? [{ ...game, chainId: chain.id, contract }] : [];
+  });
+};
+
+export const getGame = (id: GameId, chainId: number): GameDefinition | undefined =>
+  getGames(chainId).find(game => game.id === id);
+
+export const getGameSpec = (id: GameId): GameSpec => GAMES.find(game => game.id === id)!;
+
+// Looks in every deployment unless a chain is given
+export const findGameByContract = (address: string, chainId?: number): GameDefinition | undefined => {
+  const deployments = chainId === undefined ? DEPLOYMENTS : [getDeployment(chainId)];
+  for (const deployment of deployments) {
+    const game = getGames(deployment.chain.id)
+      .find(candidate => candidate.contract.toLowerCase() === address.toLowerCase());
+    if (game) return game;
+  }
+  return undefined;
+};
+
+export const findGameByRoute = (pathname: string): GameSpec | undefined =>
+  GAMES.find(game => game.route === pathname);
+
+export const findGameByDemoRoute = (pathname: string): GameSpec | undefined =>
+  GAMES.find(game => game.demoRoute === pathname);
+
+// Games on the chain the app is currently pointed at, follows network switches
+export const useGames = (): GameDefinition[] => {
+  const chainId = useChainId();
+  return useMemo(() => getGames(chainId), [chainId]);
+};
+
+export const useGame = (id: GameId): GameDefinition | undefined =>
+  useGames().find(game => game.id === id);
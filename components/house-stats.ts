@@ -0,0 +1,83 @@
+import { Hex } from 'viem';
+import { readContracts } from '@wagmi/core';
+import { config } from '../src/wagmi';
+import { IndexedEvent, RollEvent } from './roll-indexer';
+import { GameDefinition } from './games';
+import { createPayoutLookup } from './player-stats';
+
+const BALANCE_READ_BATCH = 200; // playerBalances calls per multicall
+
+export interface HouseEdge {
+  bets: number;
+  wagered: bigint;
+  paidOut: bigint;
+  realized: number | null; // Share of wagers the house kept, null before any bets
+  expected: number | null; // What the odds and payout formula say it should keep
+}
+
+/**
+ * Realized house edge over a game's indexed Rolls, next to the edge its odds
+ * imply. The expected edge weighs each bet's win probability and payout by
+ * its stake, since dice odds vary bet to bet.
+ */
+export const computeHouseEdge = (events: IndexedEvent[], game: GameDefinition): HouseEdge => {
+  const payoutOf = createPayoutLookup(events);
+  const contract = game.contract.toLowerCase();
+  let bets = 0;
+  let wagered = 0n;
+  let paidOut = 0n;
+  let expectedReturn = 0;
+
+  for (const event of events) {
+    if (event.eventName !== 'Roll' || event.contract !== contract) continue;
+    const roll: RollEvent = event;
+    bets++;
+    wagered += roll.amount;
+    paidOut += payoutOf(roll, game);
+    const winPayout = Number(game.payoutFor(roll.amount, BigInt(roll.choice)));
+    expectedReturn += game.winProbability(roll.choice) * winPayout;
+  }
+
+  const wageredNumber = Number(wagered);
+  return {
+    bets,
+    wagered,
+    paidOut,
+    realized: bets === 0 ? null : Number(wagered - paidOut) / wageredNumber,
+    expected: bets === 0 ? null : 1 - expectedReturn / wageredNumber,
+  };
+};
+
+/**
+ * Reads `playerBalances` for each player through multicall and returns the
+ * non-zero ones. Their sum is what the contract owes players right now.
+ */
+export const readPlayerBalances = async (game: GameDefinition, players: string[]): Promise<Map<string, bigint>> => {
+  const balances = new Map<string, bigint>();
+  let failures = 0;
+  for (let start = 0; start < players.length; start += BALANCE_READ_BATCH) {
+    const batch = players.slice(start, start + BALANCE_READ_BATCH);
+    const results = await readContracts(config, {
+      contracts: batch.map(player => ({
+        chainId: game.chainId,
+        abi: game.abi,
+        address: game.contract,
+        functionName: 'playerBalances',
+        args: [player as Hex],
+      })),
+    });
+    results.forEach((result, index) => {
+      if (result.status === 'success' && (result.result as bigint) > 0n) {
+        balances.set(batch[index], result.result as bigint);
+      } else if (result.status === 'failure') {
+        console.error("Error reading player balance:", batch[index], result.error);
+        failures++;
+      }
+    });
+  }
+  // A partial sum would understate what the contract owes
+  if (failures > 0) {
+    throw new Error(`Could not read ${failures} player balance${failures === 1 ? '' : 's'}`);
+  }
+  return balances;
+};
@@ -0,0 +1,72 @@
+import { IndexedEvent, RollEvent } from './roll-indexer';
+import { GameId, findGameByContract } from './games';
+import { createPayoutLookup } from './player-stats';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'allTime';
+export type LeaderboardMetric = 'volume' | 'profit' | 'payout';
+
+export const PERIOD_SECONDS: Record<LeaderboardPeriod, number | null> = {
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+  allTime: null,
+};
+
+export interface LeaderboardEntry {
+  player: string;
+  bets: number;
+  wagered: bigint;
+  net: bigint;
+  biggestPayout: bigint;
+  biggestPayoutTx: string | null; // Roll transaction of the biggest payout, for linking
+}
+
+const metricValue = (entry: LeaderboardEntry, metric: LeaderboardMetric): bigint =>
+  metric === 'volume' ? entry.wagered : metric === 'profit' ? entry.net : entry.biggestPayout;
+
+/**
+ * Ranks players by the chosen metric over Roll events since `since` (unix
+ * seconds, null for all time), optionally for a single game.
+ */
+export const computeLeaderboard = (
+  events: IndexedEvent[],
+  { since, game: gameFilter, metric, limit = 10 }: {
+    since: number | null;
+    game: GameId | 'all';
+    metric: LeaderboardMetric;
+    limit?: number;
+  }
+): LeaderboardEntry[] => {
+  const payoutOf = createPayoutLookup(events);
+  const byPlayer = new Map<string, LeaderboardEntry>();
+
+  for (const event of events) {
+    if (event.eventName !== 'Roll') continue;
+    if (since !== null && event.timestamp < since) continue;
+    const game = findGameByContract(event.contract);
+    if (!game || (gameFilter !== 'all' && game.id !== gameFilter)) continue;
+
+    const roll: RollEvent = event;
+    const payout = payoutOf(roll, game);
+    let entry = byPlayer.get(roll.player);
+    if (!entry) {
+      entry = { player: roll.player, bets: 0, wagered: 0n, net: 0n, biggestPayout: 0n, biggestPayoutTx: null };
+      byPlayer.set(roll.player, entry);
+    }
+    entry.bets++;
+    entry.wagered += roll.amount;
+    entry.net += payout - roll.amount;
+    if (payout > entry.biggestPayout) {
+      entry.biggestPayout = payout;
+      entry.biggestPayoutTx = roll.transactionHash;
+    }
+  }
+
+  return [...byPlayer.values()]
+    // A losing or payout-less player doesn't belong on a winners' board
+    .filter(entry => metric === 'volume' || metricValue(entry, metric) > 0n)
+    .sort((a, b) => {
+      const diff = metricValue(b, metric) - metricValue(a, metric);
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    })
+    .slice(0, limit);
+};
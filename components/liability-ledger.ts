@@ -0,0 +1,98 @@
+import { IndexedEvent, WinningsEvent } from './roll-indexer';
+import { GameDefinition, findGameByContract } from './games';
+
+export interface LedgerEntry {
+  player: string;
+  credited: bigint; // Sum of WinningsDeposited
+  withdrawn: bigint; // Sum of WinningsWithdrawn
+  balance: bigint; // What the events say is still in the contract
+  lastActivity: number;
+}
+
+export interface ReconciledEntry extends LedgerEntry {
+  onchain: bigint; // playerBalances as read from the contract
+  mismatch: boolean;
+}
+
+export interface LedgerReconciliation {
+  entries: ReconciledEntry[]; // Largest on-chain balance first
+  ledgerTotal: bigint;
+  onchainTotal: bigint;
+  mismatches: ReconciledEntry[];
+}
+
+// One credit or withdrawal with the player's balance in that contract after it
+export interface AuditRow {
+  event: WinningsEvent;
+  game: GameDefinition;
+  balance: bigint;
+}
+
+const isWinningsEvent = (event: IndexedEvent): event is WinningsEvent =>
+  event.eventName === 'WinningsDeposited' || event.eventName === 'WinningsWithdrawn';
+
+const oldestFirst = (a: IndexedEvent, b: IndexedEvent) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * Replays a contract's WinningsDeposited and WinningsWithdrawn events into
+ * each player's unwithdrawn balance. Only exact once history has loaded back
+ * to the deployment block, older credits are missing until then.
+ */
+export const buildLiabilityLedger = (events: IndexedEvent[], game: GameDefinition): LedgerEntry[] => {
+  const contract = game.contract.toLowerCase();
+  const ledger = new Map<string, LedgerEntry>();
+
+  for (const event of events.filter(isWinningsEvent).sort(oldestFirst)) {
+    if (event.contract !== contract) continue;
+    const entry = ledger.get(event.player) ?? {
+      player: event.player,
+      credited: 0n,
+      withdrawn: 0n,
+      balance: 0n,
+      lastActivity: 0,
+    };
+    if (event.eventName === 'WinningsDeposited') {
+      entry.credited += event.amount;
+      entry.balance += event.amount;
+    } else {
+      entry.withdrawn += event.amount;
+      entry.balance -= event.amount;
+    }
+    entry.lastActivity = event.timestamp;
+    ledger.set(event.player, entry);
+  }
+  return [...ledger.values()];
+};
+
+// Lines the replayed ledger up with balances read from the contract
+export const reconcileLedger = (ledger: LedgerEntry[], onchain: Map<string, bigint>): LedgerReconciliation => {
+  const entries = ledger.map(entry => {
+    const onchainBalance = onchain.get(entry.player) ?? 0n;
+    return { ...entry, onchain: onchainBalance, mismatch: onchainBalance !== entry.balance };
+  });
+  entries.sort((a, b) => (b.onchain > a.onchain ? 1 : b.onchain < a.onchain ? -1 : 0));
+
+  return {
+    entries,
+    ledgerTotal: entries.reduce((sum, entry) => sum + entry.balance, 0n),
+    onchainTotal: entries.reduce((sum, entry) => sum + entry.onchain, 0n),
+    mismatches: entries.filter(entry => entry.mismatch),
+  };
+};
+
+// Every credit and withdrawal for one player across all games, newest first
+export const playerAuditTrail = (events: IndexedEvent[], player: string): AuditRow[] => {
+  const address = player.toLowerCase();
+  const balances = new Map<string, bigint>();
+  const rows: AuditRow[] = [];
+
+  for (const event of events.filter(isWinningsEvent).sort(oldestFirst)) {
+    const game = findGameByContract(event.contract);
+    if (!game || event.player !== address) continue;
+    const delta = event.eventName === 'WinningsDeposited' ? event.amount : -event.amount;
+    const balance = (balances.get(event.contract) ?? 0n) + delta;
+    balances.set(event.contract, balance);
+    rows.push({ event, game, balance });
+  }
+  return rows.reverse();
+};
@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import { getReadProvider, isRangeLimitError } from './rpc-provider';
+import { BlockRange } from './block-ranges';
+
+const INITIAL_CHUNK_SIZE = 500; // Blocks per eth_getLogs call until the node says otherwise
+const MAX_CHUNK_SIZE = 10000;
+const GROW_AFTER = 5; // Successful calls in a row before trying a wider window
+
+interface ChunkState {
+  size: number;
+  ceiling: number; // Narrowest window a node has refused, so growth stops short of it
+  streak: number;
+}
+
+// Learned per chain, since each chain's nodes have their own limits
+const chunkStates = new Map<number, ChunkState>();
+
+const chunkStateOf = (chainId: number): ChunkState => {
+  let state = chunkStates.get(chainId);
+  if (!state) {
+    state = { size: INITIAL_CHUNK_SIZE, ceiling: MAX_CHUNK_SIZE + 1, streak: 0 };
+    chunkStates.set(chainId, state);
+  }
+  return state;
+};
+
+export interface LogFilter {
+  address: string;
+  topics: (string | string[] | null)[];
+}
+
+/**
+ * Fetches the logs of `range` one window at a time, newest window first
+ * unless `oldestFirst` is set, handing each window to `onChunk` as it lands.
+ *
+ * The window starts at INITIAL_CHUNK_SIZE blocks, halves whenever a node
+ * rejects it as too wide and grows again after a run of successes. Returning
+ * false from `onChunk` stops the scan. Any other error is thrown after the
+ * windows before it were delivered, so callers keep what already arrived.
+ */
+export const scanLogs = async (
+  chainId: number,
+  filter: LogFilter,
+  range: BlockRange,
+  onChunk: (chunk: BlockRange, logs: ethers.Log[]) => Promise<boolean | void>,
+  { oldestFirst = false } = {}
+): Promise<void> => {
+  const provider = getReadProvider(chainId);
+  const state = chunkStateOf(chainId);
+  let remaining: BlockRange | null = { ...range };
+
+  while (remaining) {
+    const size: number = state.size;
+    const chunk: BlockRange = oldestFirst
+      ? { from: remaining.from, to: Math.min(remaining.from + size - 1, remaining.to) }
+      : { from: Math.max(remaining.to - size + 1, remaining.from), to: remaining.to };
+
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ ...filter, fromBlock: chunk.from, toBlock: chunk.to });
+    } catch (err) {
+      const width = chunk.to - chunk.from + 1;
+      if (!isRangeLimitError(err) || width === 1) throw err;
+      state.ceiling = Math.min(state.ceiling, width);
+      state.size = Math.max(Math.floor(width / 2), 1);
+      state.streak = 0;
+      continue;
+    }
+
+    state.streak += 1;
+    if (state.streak >= GROW_AFTER && state.size * 2 < state.ceiling) {
+      state.size = Math.min(state.size * 2, MAX_CHUNK_SIZE);
+      state.streak = 0;
+    }
+
+    if (await onChunk(chunk, logs) === false) return;
+
+    remaining = oldestFirst
+      ? (chunk.to < remaining.to ? { from: chunk.to + 1, to: remaining.to } : null)
+      : (chunk.from > remaining.from ? { from: remaining.from, to: chunk.from - 1 } : null);
+  }
+};
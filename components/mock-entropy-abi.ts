@@ -0,0 +1,49 @@
+// The parts of contracts/MockEntropy.sol the devnet panel calls
+const REQUEST_COMPONENTS = [
+  { internalType: 'address', name: 'provider', type: 'address' },
+  { internalType: 'uint64', name: 'sequenceNumber', type: 'uint64' },
+  { internalType: 'uint32', name: 'numHashes', type: 'uint32' },
+  { internalType: 'bytes32', name: 'commitment', type: 'bytes32' },
+  { internalType: 'uint64', name: 'blockNumber', type: 'uint64' },
+  { internalType: 'address', name: 'requester', type: 'address' },
+  { internalType: 'bool', name: 'useBlockhash', type: 'bool' },
+  { internalType: 'bool', name: 'isRequestWithCallback', type: 'bool' },
+] as const;
+
+export const MOCK_ENTROPY_ABI = [
+  {
+    inputs: [],
+    name: 'openRequests',
+    outputs: [
+      {
+        components: REQUEST_COMPONENTS,
+        internalType: 'struct MockEntropy.Request[]',
+        name: 'open',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'sequence', type: 'uint64' },
+      { internalType: 'bytes32', name: 'providerRevelation', type: 'bytes32' },
+    ],
+    name: 'reveal',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'sequence', type: 'uint64' },
+      { internalType: 'bytes32', name: 'randomNumber', type: 'bytes32' },
+    ],
+    name: 'revealWithRandomNumber',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  { inputs: [], name: 'NoSuchRequest', type: 'error' },
+] as const;
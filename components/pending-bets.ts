@@ -0,0 +1,310 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Abi, Hex, zeroAddress } from 'viem';
+import { readContract } from '@wagmi/core';
+import { config } from '../src/wagmi';
+import { getReadProvider } from './rpc-provider';
+import { scanLogs } from './log-scanner';
+import { LEGACY_CHAIN_ID } from './deployments';
+import { resolveTimestamps } from './block-timestamps';
+import { RollEvent, decodeGameLog } from './roll-indexer';
+import { REVEALED_WITH_CALLBACK_TOPIC0, decodeReveal, findRequestSequence } from './entropy-events';
+
+const STORAGE_KEY = 'broflip-pending-bets';
+const CHECK_INTERVAL = 5000; // 5 seconds
+
+export interface PendingBet {
+  txHash: Hex;
+  chainId: number;
+  contract: string;
+  player: string;
+  amount: bigint;
+  choice: bigint;
+  sequence: bigint | null;
+  requestBlock: number | null;
+  submittedAt: number;
+}
+
+export type PendingBetStatus = 'confirming' | 'awaitingRandomness' | 'resolved' | 'failed';
+
+export interface TrackedBet extends PendingBet {
+  status: PendingBetStatus;
+  restored: boolean; // Loaded from storage rather than submitted in this page session
+  roll: RollEvent | null;
+}
+
+// localStorage can't hold bigints, so they are kept as decimal strings
+interface StoredBet extends Omit<PendingBet, 'chainId' | 'amount' | 'choice' | 'sequence'> {
+  chainId?: number; // Missing on bets stored before other networks were supported
+  amount: string;
+  choice: string;
+  sequence: string | null;
+}
+
+const readStoredBets = (): PendingBet[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored: StoredBet[] = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return stored.map(bet => ({
+      ...bet,
+      chainId: bet.chainId ?? LEGACY_CHAIN_ID,
+      amount: BigInt(bet.amount),
+      choice: BigInt(bet.choice),
+      sequence: bet.sequence === null ? null : BigInt(bet.sequence),
+    }));
+  } catch (err) {
+    console.error("Error reading pending bets:", err);
+    return [];
+  }
+};
+
+const writeStoredBets = (bets: PendingBet[]) => {
+  const stored: StoredBet[] = bets.map(bet => ({
+    txHash: bet.txHash,
+    chainId: bet.chainId,
+    contract: bet.contract,
+    player: bet.player,
+    amount: bet.amount.toString(),
+    choice: bet.choice.toString(),
+    sequence: bet.sequence === null ? null : bet.sequence.toString(),
+    requestBlock: bet.requestBlock,
+    submittedAt: bet.submittedAt,
+  }));
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+const saveStoredBet = (bet: PendingBet) => {
+  writeStoredBets([...readStoredBets().filter(stored => stored.txHash !== bet.txHash), bet]);
+};
+
+const removeStoredBet = (txHash: Hex) => {
+  writeStoredBets(readStoredBets().filter(stored => stored.txHash !== txHash));
+};
+
+const entropyAddresses = new Map<string, string>();
+
+const getEntropyAddress = async (chainId: number, contract: string, abi: Abi): Promise<string> => {
+  const key = `${chainId}:${contract.toLowerCase()}`;
+  let address = entropyAddresses.get(key);
+  if (!address) {
+    address = (await readContract(config, {
+      chainId,
+      abi,
+      address: contract as Hex,
+      functionName: 'entropy',
+    })) as string;
+    entropyAddresses.set(key, address);
+  }
+  return address;
+};
+
+/**
+ * Decodes the game's Roll event from the transaction in which Entropy
+ * delivered the random number for `sequence`, if that transaction is it.
+ */
+export const findRollInRevealTx = async (
+  chainId: number,
+  contract: string,
+  txHash: string,
+  sequence: bigint
+): Promise<RollEvent | null> => {
+  const receipt = await getReadProvider(chainId).getTransactionReceipt(txHash);
+  if (!receipt) return null;
+
+  const revealed = receipt.logs
+    .map(log => decodeReveal(log))
+    .some(reveal => reveal?.sequence === sequence && reveal.requester === contract.toLowerCase());
+  if (!revealed) return null;
+
+  const timestamps = await resolveTimestamps(chainId, [receipt.blockNumber]);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== contract.toLowerCase()) continue;
+    const event = decodeGameLog(contract, log, timestamps.get(receipt.blockNumber) ?? 0);
+    if (event?.eventName === 'Roll') return event;
+  }
+  return null;
+};
+
+// Scans Entropy's reveals from the request block up to the head for the one
+// carrying `sequence`. Reveals normally land within a few blocks, so the
+// oldest-first scan stops early however long ago the bet was placed.
+const findRollForSequence = async (
+  chainId: number,
+  contract: string,
+  abi: Abi,
+  sequence: bigint,
+  fromBlock: number
+): Promise<RollEvent | null> => {
+  const provider = getReadProvider(chainId);
+  const entropyAddress = await getEntropyAddress(chainId, contract, abi);
+  const latestBlock = await provider.getBlockNumber();
+
+  let revealTx: string | null = null;
+  const filter = { address: entropyAddress, topics: [REVEALED_WITH_CALLBACK_TOPIC0] };
+  await scanLogs(chainId, filter, { from: fromBlock, to: latestBlock }, async (_chunk, logs) => {
+    for (const log of logs) {
+      const reveal = decodeReveal(log);
+      if (reveal?.sequence === sequence && reveal.requester === contract.toLowerCase()) {
+        revealTx = reveal.transactionHash;
+        return false;
+      }
+    }
+  }, { oldestFirst: true });
+
+  if (revealTx) return findRollInRevealTx(chainId, contract, revealTx, sequence);
+  return null;
+};
+
+/**
+ * Works out where a bet stands: its flip transaction still confirming, its
+ * Entropy request still open in the contract's `bets` mapping, or settled.
+ */
+const checkBet = async (bet: TrackedBet, abi: Abi): Promise<TrackedBet> => {
+  let { sequence, requestBlock } = bet;
+
+  if (sequence === null || requestBlock === null) {
+    const receipt = await getReadProvider(bet.chainId).getTransactionReceipt(bet.txHash);
+    if (!receipt) return { ...bet, status: 'confirming' };
+    if (receipt.status === 0) return { ...bet, status: 'failed' };
+
+    const entropyAddress = await getEntropyAddress(bet.chainId, bet.contract, abi);
+    sequence = findRequestSequence(receipt.logs, bet.contract, entropyAddress);
+    requestBlock = receipt.blockNumber;
+    if (sequence === null) {
+      console.error("No Entropy request found in flip transaction:", bet.txHash);
+      return { ...bet, requestBlock, status: 'resolved' };
+    }
+  }
+
+  const [betPlayer] = (await readContract(config, {
+    chainId: bet.chainId,
+    abi,
+    address: bet.contract as Hex,
+    functionName: 'bets',
+    args: [sequence],
+  })) as readonly [string, bigint, bigint, bigint];
+
+  if (betPlayer !== zeroAddress) {
+    return { ...bet, sequence, requestBlock, status: 'awaitingRandomness' };
+  }
+
+  const roll = await findRollForSequence(bet.chainId, bet.contract, abi, sequence, requestBlock);
+  return { ...bet, sequence, requestBlock, status: 'resolved', roll };
+};
+
+export const isUnresolved = (bet: TrackedBet) =>
+  bet.status === 'confirming' || bet.status === 'awaitingRandomness';
+
+/**
+ * Tracks a player's submitted flips in localStorage so a refresh can pick
+ * them up again, and follows each one until its randomness is revealed.
+ * Every bet resolves to the Roll emitted alongside the reveal of its own
+ * Entropy sequence number, never just the player's latest Roll.
+ */
+export const usePendingBets = (chainId: number, contract: string, abi: Abi, player?: string) => {
+  const [bets, setBets] = useState<TrackedBet[]>([]);
+  const betsRef = useRef(bets);
+  useEffect(() => {
+    betsRef.current = bets;
+  }, [bets]);
+
+  useEffect(() => {
+    if (!player) {
+      setBets([]);
+      return;
+    }
+    setBets(readStoredBets()
+      .filter(bet =>
+        bet.chainId === chainId &&
+        bet.contract.toLowerCase() === contract.toLowerCase() &&
+        bet.player.toLowerCase() === player.toLowerCase()
+      )
+      .map(bet => ({ ...bet, status: 'confirming', restored: true, roll: null })));
+  }, [chainId, contract, player]);
+
+  const applyUpdate = useCallback((bet: TrackedBet, updated: TrackedBet) => {
+    if (updated.status === 'failed') {
+      removeStoredBet(bet.txHash);
+    } else if (updated.sequence !== bet.sequence) {
+      saveStoredBet(updated);
+    }
+    setBets(prev => prev.map(existing => existing.txHash === bet.txHash ? updated : existing));
+  }, []);
+
+  const unresolvedKey = bets.filter(isUnresolved).map(bet => bet.txHash).join(',');
+
+  useEffect(() => {
+    if (!unresolvedKey) return;
+    let cancelled = false;
+    let running = false;
+
+    const checkAll = async () => {
+      if (running) return;
+      running = true;
+      for (const bet of betsRef.current.filter(isUnresolved)) {
+        try {
+          const updated = await checkBet(bet, abi);
+          if (cancelled) break;
+          applyUpdate(bet, updated);
+        } catch (err) {
+          console.error("Error checking pending bet:", err);
+        }
+      }
+      running = false;
+    };
+
+    checkAll();
+    const timer = setInterval(checkAll, CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [unresolvedKey, contract, abi, applyUpdate]);
+
+  /**
+   * Checks whether a freshly seen Roll transaction is the reveal for one of
+   * the tracked bets, so results show without waiting for the next poll.
+   */
+  const checkRollTx = useCallback(async (rollTxHash: string) => {
+    for (const bet of betsRef.current.filter(isUnresolved)) {
+      try {
+        const current = bet.sequence === null ? await checkBet(bet, abi) : bet;
+        if (!isUnresolved(current) || current.sequence === null) {
+          applyUpdate(bet, current);
+          continue;
+        }
+        const roll = await findRollInRevealTx(chainId, contract, rollTxHash, current.sequence);
+        if (roll) {
+          applyUpdate(bet, { ...current, status: 'resolved', roll });
+        } else if (current !== bet) {
+          applyUpdate(bet, current);
+        }
+      } catch (err) {
+        console.error("Error matching Roll to pending bet:", err);
+      }
+    }
+  }, [chainId, contract, abi, applyUpdate]);
+
+  const trackBet = useCallback((txHash: Hex, amount: bigint, choice: bigint) => {
+    if (!player) return;
+    const bet: PendingBet = {
+      txHash,
+      chainId,
+      contract,
+      player,
+      amount,
+      choice,
+      sequence: null,
+      requestBlock: null,
+      submittedAt: Date.now(),
+    };
+    saveStoredBet(bet);
+    setBets(prev => [...prev, { ...bet, status: 'confirming', restored: false, roll: null }]);
+  }, [chainId, contract, player]);
+
+  const dismissBet = useCallback((txHash: Hex) => {
+    removeStoredBet(txHash);
+    setBets(prev => prev.filter(bet => bet.txHash !== txHash));
+  }, []);
+
+  return { bets, trackBet, dismissBet, checkRollTx };
+};
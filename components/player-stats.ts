@@ -0,0 +1,147 @@
+import { IndexedEvent, RollEvent } from './roll-indexer';
+import { GAMES, GameDefinition, GameId, GameSpec, findGameByContract } from './games';
+
+export interface GameStats {
+  game: GameSpec;
+  bets: number;
+  wins: number;
+  wagered: bigint;
+  net: bigint;
+}
+
+// Dice bets grouped by the win chance the player picked
+export interface WinChanceBucket {
+  label: string;
+  bets: number;
+  wins: number;
+  expectedWinRate: number; // Average chosen win chance, 0..1
+}
+
+export interface PnlPoint {
+  timestamp: number;
+  net: bigint; // Cumulative profit or loss after this bet
+}
+
+export interface PlayerStats {
+  bets: number;
+  wins: number;
+  totalWagered: bigint;
+  totalWon: bigint; // Paid out on winning bets, stake included
+  totalLost: bigint; // Stakes of losing bets
+  net: bigint;
+  perGame: GameStats[];
+  diceBuckets: WinChanceBucket[];
+  biggestWin: { roll: RollEvent; game: GameDefinition; profit: bigint } | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  pnl: PnlPoint[]; // Oldest first
+}
+
+const DICE_BUCKETS = [
+  { label: '4-25%', min: 4, max: 25 },
+  { label: '26-50%', min: 26, max: 50 },
+  { label: '51-75%', min: 51, max: 75 },
+  { label: '76-96%', min: 76, max: 96 },
+];
+
+const eventKey = (event: { contract: string; transactionHash: string }) =>
+  `${event.contract}:${event.transactionHash}`;
+
+/**
+ * Returns what each Roll paid out: the WinningsDeposited emitted alongside
+ * it, or the game's payout formula when that event isn't indexed.
+ */
+export const createPayoutLookup = (events: IndexedEvent[]) => {
+  const deposits = new Map<string, bigint>();
+  for (const event of events) {
+    if (event.eventName === 'WinningsDeposited') {
+      deposits.set(eventKey(event), (deposits.get(eventKey(event)) ?? 0n) + event.amount);
+    }
+  }
+  return (roll: RollEvent, game: GameSpec): bigint => roll.won
+    ? deposits.get(eventKey(roll)) ?? game.payoutFor(roll.amount, BigInt(roll.choice))
+    : 0n;
+};
+
+// Lifetime statistics for one player from their decoded game events
+export const computePlayerStats = (events: IndexedEvent[]): PlayerStats => {
+  const payoutOf = createPayoutLookup(events);
+
+  const rolls = events
+    .filter((event): event is RollEvent => event.eventName === 'Roll')
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const perGame = new Map<GameId, GameStats>(
+    GAMES.map(game => [game.id, { game, bets: 0, wins: 0, wagered: 0n, net: 0n }])
+  );
+  const buckets = DICE_BUCKETS.map(bucket => ({ ...bucket, bets: 0, wins: 0, chanceTotal: 0 }));
+
+  const stats: PlayerStats = {
+    bets: 0,
+    wins: 0,
+    totalWagered: 0n,
+    totalWon: 0n,
+    totalLost: 0n,
+    net: 0n,
+    perGame: [],
+    diceBuckets: [],
+    biggestWin: null,
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    pnl: [],
+  };
+  let streak = 0; // Positive while winning, negative while losing
+
+  for (const roll of rolls) {
+    const game = findGameByContract(roll.contract);
+    if (!game) continue;
+
+    const payout = payoutOf(roll, game);
+    const profit = payout - roll.amount;
+
+    stats.bets++;
+    stats.totalWagered += roll.amount;
+    stats.net += profit;
+    if (roll.won) {
+      stats.wins++;
+      stats.totalWon += payout;
+      if (!stats.biggestWin || profit > stats.biggestWin.profit) {
+        stats.biggestWin = { roll, game, profit };
+      }
+    } else {
+      stats.totalLost += roll.amount;
+    }
+
+    streak = roll.won ? Math.max(streak, 0) + 1 : Math.min(streak, 0) - 1;
+    stats.longestWinStreak = Math.max(stats.longestWinStreak, streak);
+    stats.longestLossStreak = Math.max(stats.longestLossStreak, -streak);
+
+    const gameStats = perGame.get(game.id)!;
+    gameStats.bets++;
+    gameStats.wagered += roll.amount;
+    gameStats.net += profit;
+    if (roll.won) gameStats.wins++;
+
+    if (game.id === 'dice') {
+      const bucket = buckets.find(candidate => roll.choice >= candidate.min && roll.choice <= candidate.max);
+      if (bucket) {
+        bucket.bets++;
+        bucket.chanceTotal += roll.choice;
+        if (roll.won) bucket.wins++;
+      }
+    }
+
+    stats.pnl.push({ timestamp: roll.timestamp, net: stats.net });
+  }
+
+  stats.perGame = [...perGame.values()].filter(gameStats => gameStats.bets > 0);
+  stats.diceBuckets = buckets
+    .filter(bucket => bucket.bets > 0)
+    .map(({ label, bets, wins, chanceTotal }) => ({
+      label,
+      bets,
+      wins,
+      expectedWinRate: chanceTotal / bets / 100,
+    }));
+  return stats;
+};
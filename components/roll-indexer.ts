@@ -0,0 +1,730 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { Hex, Log } from 'viem';
+import { useChainId } from 'wagmi';
+import { watchContractEvent } from '@wagmi/core';
+import { config } from '../src/wagmi';
+import { getReadProvider } from './rpc-provider';
+import { scanLogs } from './log-scanner';
+import { getDeployment } from './deployments';
+import { findBlockAtTimestamp, resolveTimestamps } from './block-timestamps';
+import { BlockRange, addRange, highestBlock, lowestBlock, missingRanges } from './block-ranges';
+import { loadContractEvents, loadPlayerEvents, loadRecentEvents, loadSyncState, saveSyncState, saveSyncedChunk } from './bet-history-db';
+
+interface BaseEvent {
+  contract: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  player: string;
+  amount: bigint;
+  timestamp: number;
+}
+
+export interface RollEvent extends BaseEvent {
+  eventName: 'Roll';
+  choice: number;
+  outcome: number;
+  won: boolean;
+}
+
+export interface WinningsEvent extends BaseEvent {
+  eventName: 'WinningsDeposited' | 'WinningsWithdrawn';
+}
+
+export type IndexedEvent = RollEvent | WinningsEvent;
+
+export interface BackfillProgress {
+  deploymentBlock: number;
+  syncedBlocks: number;
+  totalBlocks: number;
+  complete: boolean;
+}
+
+export interface RollIndexSnapshot {
+  events: RollEvent[];
+  loading: boolean;
+  error: string | null;
+  lastIndexedBlock: number | null;
+  syncedFrom: number | null; // Every block from here up to lastIndexedBlock is indexed
+  backfill: BackfillProgress | null;
+  backfilling: boolean;
+}
+
+type Listener = (snapshot: RollIndexSnapshot) => void;
+
+// The parts of a log the decoder needs, shared by ethers and viem logs
+export interface RawLog {
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string | null;
+  index: number;
+}
+
+// These events are identical on the dice and coinflip contracts
+export const ROLL_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: 'address', name: 'player', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'choice', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'outcome', type: 'uint256' },
+      { indexed: false, internalType: 'bool', name: 'won', type: 'bool' }
+    ],
+    name: 'Roll',
+    type: 'event'
+  }
+] as const;
+
+const WINNINGS_EVENT_ABI = ['WinningsDeposited', 'WinningsWithdrawn'].map(name => ({
+  anonymous: false,
+  inputs: [
+    { indexed: false, internalType: 'address', name: 'player', type: 'address' },
+    { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' }
+  ],
+  name,
+  type: 'event'
+}));
+
+const GAME_EVENT_TOPICS = [
+  ethers.id("Roll(address,uint256,uint256,uint256,bool)"),
+  ethers.id("WinningsDeposited(address,uint256)"),
+  ethers.id("WinningsWithdrawn(address,uint256)")
+];
+
+export const POLLING_INTERVAL = 10000; // 10 seconds
+// The live feed only carries Roll logs; this slower poll picks up winnings events and advances the synced range
+const LIVE_POLLING_INTERVAL = 60000;
+const INITIAL_SYNC_BLOCKS = 2000; // How far back a contract with an empty store starts
+const MAX_CACHED_EVENTS = 500; // Roll events kept in memory per contract, newest first
+const HISTORY_RELOAD_INTERVAL = 5000; // Full-history readers re-read the store at most this often
+const RECONNECT_BASE_DELAY = 1000; // First live-feed reconnect attempt after 1 second
+const MAX_RECONNECT_DELAY = 30000;
+
+interface ContractIndex {
+  chainId: number;
+  events: RollEvent[];
+  ranges: BlockRange[];
+  deploymentBlock: number | null;
+  hydrated: boolean;
+  loading: boolean;
+  error: string | null;
+  syncing: Promise<void> | null;
+  backfilling: Promise<void> | null;
+  backfillFloors: (number | null)[]; // One per open request, null asks for the full history
+  listeners: Set<Listener>;
+  timer: ReturnType<typeof setInterval> | null;
+  timerInterval: number | null;
+  liveListeners: number;
+  unwatch: (() => void) | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectAttempts: number;
+}
+
+const gameInterface = new ethers.Interface([...ROLL_EVENT_ABI, ...WINNINGS_EVENT_ABI]);
+const indexes = new Map<string, ContractIndex>(); // Keyed by chain id and contract
+
+const getIndex = (chainId: number, contract: string): ContractIndex => {
+  const key = `${chainId}:${contract.toLowerCase()}`;
+  let index = indexes.get(key);
+  if (!index) {
+    index = {
+      chainId,
+      events: [],
+      ranges: [],
+      deploymentBlock: null,
+      hydrated: false,
+      loading: false,
+      error: null,
+      syncing: null,
+      backfilling: null,
+      backfillFloors: [],
+      listeners: new Set(),
+      timer: null,
+      timerInterval: null,
+      liveListeners: 0,
+      unwatch: null,
+      reconnectTimer: null,
+      reconnectAttempts: 0,
+    };
+    indexes.set(key, index);
+  }
+  return index;
+};
+
+const backfillProgressOf = (index: ContractIndex): BackfillProgress | null => {
+  const head = highestBlock(index.ranges);
+  if (index.deploymentBlock === null || head === null) return null;
+
+  const totalBlocks = head - index.deploymentBlock + 1;
+  const unsynced = missingRanges(index.ranges, index.deploymentBlock, head)
+    .reduce((sum, gap) => sum + gap.to - gap.from + 1, 0);
+
+  return {
+    deploymentBlock: index.deploymentBlock,
+    syncedBlocks: totalBlocks - unsynced,
+    totalBlocks,
+    complete: unsynced === 0,
+  };
+};
+
+const snapshotOf = (index: ContractIndex): RollIndexSnapshot => ({
+  events: index.events,
+  loading: index.loading,
+  error: index.error,
+  lastIndexedBlock: highestBlock(index.ranges),
+  syncedFrom: index.ranges.length > 0 ? index.ranges[index.ranges.length - 1].from : null,
+  backfill: backfillProgressOf(index),
+  backfilling: index.backfilling !== null,
+});
+
+const notify = (index: ContractIndex) => {
+  const snapshot = snapshotOf(index);
+  index.listeners.forEach(listener => listener(snapshot));
+};
+
+const compareEvents = (a: IndexedEvent, b: IndexedEvent) =>
+  b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+
+const eventKey = (event: IndexedEvent) => `${event.transactionHash}:${event.logIndex}`;
+
+// Store reloads usually return what is already shown; keeping the old array spares re-aggregation
+const sameEvents = (a: IndexedEvent[], b: IndexedEvent[]) =>
+  a.length === b.length && a.every((event, i) => eventKey(event) === eventKey(b[i]));
+
+const isRoll = (event: IndexedEvent): event is RollEvent => event.eventName === 'Roll';
+
+const mergeEvents = <T extends IndexedEvent>(existing: T[], incoming: T[], limit = Infinity): T[] => {
+  const byKey = new Map(existing.map(event => [eventKey(event), event]));
+  incoming.forEach(event => byKey.set(eventKey(event), event));
+  return Array.from(byKey.values()).sort(compareEvents).slice(0, limit);
+};
+
+export const decodeGameLog = (contract: string, log: RawLog, timestamp: number): IndexedEvent | null => {
+  try {
+    const parsedLog = gameInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsedLog) {
+      console.error("Failed to parse game log:", log);
+      return null;
+    }
+
+    const base: BaseEvent = {
+      contract: contract.toLowerCase(),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash || "unknown",
+      logIndex: log.index,
+      player: parsedLog.args.player.toLowerCase(),
+      amount: parsedLog.args.amount,
+      timestamp
+    };
+
+    if (parsedLog.name === 'Roll') {
+      return {
+        ...base,
+        eventName: 'Roll',
+        choice: Number(parsedLog.args.choice),
+        outcome: Number(parsedLog.args.outcome),
+        won: parsedLog.args.won
+      };
+    }
+    return { ...base, eventName: parsedLog.name as WinningsEvent['eventName'] };
+  } catch (decodeErr) {
+    console.error("Decode error:", decodeErr);
+    return null;
+  }
+};
+
+const decodeLogs = async (
+  chainId: number,
+  contract: string,
+  logs: RawLog[],
+  exactTimestamps: boolean
+): Promise<IndexedEvent[]> => {
+  const timestamps = await resolveTimestamps(chainId, logs.map(log => log.blockNumber), { exact: exactTimestamps });
+  const decoded: IndexedEvent[] = [];
+
+  for (const log of logs) {
+    const timestamp = timestamps.get(log.blockNumber);
+    if (timestamp === undefined) continue;
+
+    const event = decodeGameLog(contract, log, timestamp);
+    if (event) decoded.push(event);
+  }
+
+  return decoded;
+};
+
+const syncStateOf = (index: ContractIndex) => ({
+  ranges: index.ranges,
+  deploymentBlock: index.deploymentBlock,
+});
+
+// Loads the persisted sync state and newest Roll events before the first sync
+const hydrate = async (contract: string, index: ContractIndex) => {
+  try {
+    const [state, recent] = await Promise.all([
+      loadSyncState(index.chainId, contract),
+      loadRecentEvents(index.chainId, contract, 'Roll', MAX_CACHED_EVENTS)
+    ]);
+    index.ranges = state.ranges.reduce(addRange, index.ranges);
+    index.deploymentBlock = index.deploymentBlock ?? state.deploymentBlock;
+    index.events = mergeEvents(index.events, recent.filter(isRoll), MAX_CACHED_EVENTS);
+  } catch (err) {
+    console.error(`Error loading stored events for ${contract}:`, err);
+  }
+  index.hydrated = true;
+};
+
+/**
+ * Stores the decoded events of one fetched block range and records the range
+ * as synced. Ranges are only marked synced once their logs have arrived.
+ * Backfilled history uses interpolated timestamps to save block lookups.
+ */
+const storeChunk = async (
+  contract: string,
+  index: ContractIndex,
+  range: BlockRange,
+  logs: ethers.Log[],
+  exactTimestamps = true
+) => {
+  const decoded = await decodeLogs(index.chainId, contract, logs, exactTimestamps);
+
+  index.ranges = addRange(index.ranges, range);
+  try {
+    await saveSyncedChunk(index.chainId, contract, decoded, syncStateOf(index));
+  } catch (err) {
+    console.error(`Error storing events for ${contract}:`, err);
+  }
+  index.events = mergeEvents(index.events, decoded.filter(isRoll), MAX_CACHED_EVENTS);
+  notify(index);
+};
+
+const runSync = async (contract: string, index: ContractIndex) => {
+  index.loading = true;
+  notify(index);
+
+  try {
+    if (!index.hydrated) {
+      await hydrate(contract, index);
+      notify(index);
+    }
+
+    const latestBlock = await getReadProvider(index.chainId).getBlockNumber();
+    const floor = lowestBlock(index.ranges) ?? Math.max(latestBlock - INITIAL_SYNC_BLOCKS, 0);
+
+    // Walk every unsynced gap newest first, so recent bets show up before
+    // older ones. A gap that fails is left for the next sync; the others and
+    // the chunks that did land are still shown.
+    let failedGaps = 0;
+    for (const gap of missingRanges(index.ranges, floor, latestBlock)) {
+      try {
+        await scanLogs(index.chainId, { address: contract, topics: [GAME_EVENT_TOPICS] }, gap, (chunk, logs) =>
+          storeChunk(contract, index, chunk, logs)
+        );
+      } catch (err) {
+        console.error(`Error indexing blocks ${gap.from}-${gap.to} of ${contract}:`, err);
+        failedGaps += 1;
+      }
+    }
+    index.error = failedGaps > 0
+      ? `Some ${getDeployment(index.chainId).label} blocks couldn't be loaded yet, retrying shortly`
+      : null;
+  } catch (err) {
+    console.error(`Error indexing events for ${contract}:`, err);
+    index.error = `Failed to fetch ${getDeployment(index.chainId).label} events`;
+  } finally {
+    index.loading = false;
+    notify(index);
+  }
+};
+
+/**
+ * Brings a contract's index up to the latest block. Concurrent callers share
+ * the same in-flight sync, so each block range is only fetched once.
+ */
+export const syncContract = (chainId: number, contract: string): Promise<void> => {
+  const index = getIndex(chainId, contract);
+  if (!index.syncing) {
+    index.syncing = runSync(contract, index).finally(() => {
+      index.syncing = null;
+    });
+  }
+  return index.syncing;
+};
+
+/**
+ * Stores Roll logs pushed over the WebSocket subscription. They are not
+ * marked as synced ranges; the next gap-fill re-reads those blocks and the
+ * (contract, tx hash, log index) key de-duplicates them.
+ */
+const ingestLiveLogs = async (contract: string, index: ContractIndex, logs: Log[]) => {
+  // The block just landed, so arrival time stands in for its timestamp
+  const arrivedAt = Math.floor(Date.now() / 1000);
+  const decoded = logs
+    .filter(log => log.blockNumber !== null && log.logIndex !== null)
+    .map(log => decodeGameLog(contract, {
+      topics: log.topics,
+      data: log.data,
+      blockNumber: Number(log.blockNumber),
+      transactionHash: log.transactionHash,
+      index: log.logIndex as number
+    }, arrivedAt))
+    .filter((event): event is IndexedEvent => event !== null);
+  if (decoded.length === 0) return;
+
+  index.events = mergeEvents(index.events, decoded.filter(isRoll), MAX_CACHED_EVENTS);
+  notify(index);
+  try {
+    await saveSyncedChunk(index.chainId, contract, decoded, syncStateOf(index));
+  } catch (err) {
+    console.error(`Error storing live events for ${contract}:`, err);
+  }
+};
+
+// Subscribes to Roll logs over the WebSocket transport and gap-fills what was
+// missed since the high-water mark, both on first connect and after a drop.
+const armLiveFeed = (contract: string, index: ContractIndex) => {
+  index.unwatch = watchContractEvent(config, {
+    chainId: index.chainId,
+    address: contract as Hex,
+    abi: ROLL_EVENT_ABI,
+    eventName: 'Roll',
+    onLogs: logs => {
+      ingestLiveLogs(contract, index, logs);
+    },
+    onError: err => {
+      console.error(`Live Roll feed for ${contract} dropped:`, err);
+      index.unwatch?.();
+      index.unwatch = null;
+      if (index.reconnectTimer) return;
+
+      const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** index.reconnectAttempts, MAX_RECONNECT_DELAY);
+      index.reconnectAttempts += 1;
+      index.reconnectTimer = setTimeout(() => {
+        index.reconnectTimer = null;
+        updateFeeds(contract, index);
+      }, delay);
+    },
+  });
+
+  syncContract(index.chainId, contract).then(() => {
+    if (!index.error) index.reconnectAttempts = 0;
+  });
+};
+
+/**
+ * Starts or stops the live subscription and the polling timer to match the
+ * current listeners. While the live feed is wanted, polling slows down to
+ * LIVE_POLLING_INTERVAL instead of stopping.
+ */
+const updateFeeds = (contract: string, index: ContractIndex) => {
+  const wantsLive = index.liveListeners > 0;
+  const interval = index.listeners.size === 0 ? null : wantsLive ? LIVE_POLLING_INTERVAL : POLLING_INTERVAL;
+
+  if (wantsLive && !index.unwatch && !index.reconnectTimer) {
+    armLiveFeed(contract, index);
+  } else if (!wantsLive) {
+    index.unwatch?.();
+    index.unwatch = null;
+    if (index.reconnectTimer) clearTimeout(index.reconnectTimer);
+    index.reconnectTimer = null;
+    index.reconnectAttempts = 0;
+  }
+
+  if (interval === index.timerInterval) return;
+  if (index.timer) clearInterval(index.timer);
+  index.timer = null;
+  index.timerInterval = interval;
+  if (interval !== null) {
+    // The live feed syncs on connect itself, so only a fresh poll starts with one
+    if (!wantsLive) syncContract(index.chainId, contract);
+    index.timer = setInterval(() => syncContract(index.chainId, contract), interval);
+  }
+};
+
+/**
+ * Subscribes to a contract's Roll events. While any listener asks for `live`
+ * updates they arrive over the WebSocket subscription, with a slow poll
+ * behind it for the other events; otherwise the index polls. The cursor and
+ * events survive between subscriptions.
+ */
+export const subscribeRollEvents = (
+  chainId: number,
+  contract: string,
+  listener: Listener,
+  live = false
+): (() => void) => {
+  const index = getIndex(chainId, contract);
+  index.listeners.add(listener);
+  if (live) index.liveListeners += 1;
+  listener(snapshotOf(index));
+  updateFeeds(contract, index);
+
+  return () => {
+    index.listeners.delete(listener);
+    if (live) index.liveListeners -= 1;
+    updateFeeds(contract, index);
+  };
+};
+
+/**
+ * Finds the block a contract was deployed in by bisecting eth_getCode over
+ * historical blocks, so backfills know where history begins.
+ */
+const findDeploymentBlock = async (chainId: number, contract: string, latestBlock: number): Promise<number> => {
+  const provider = getReadProvider(chainId);
+  let low = 0;
+  let high = latestBlock;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const code = await provider.getCode(contract, mid);
+    if (code && code !== '0x') {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
+// Full-history requests reach down to the deployment block, the rest to their own floor
+const backfillFloor = async (contract: string, index: ContractIndex): Promise<number | null> => {
+  if (index.backfillFloors.length === 0) return null;
+  if (!index.backfillFloors.includes(null)) {
+    return Math.min(...index.backfillFloors.filter((floor): floor is number => floor !== null));
+  }
+
+  if (index.deploymentBlock === null) {
+    const latestBlock = await getReadProvider(index.chainId).getBlockNumber();
+    index.deploymentBlock = await findDeploymentBlock(index.chainId, contract, latestBlock);
+    await saveSyncState(index.chainId, contract, syncStateOf(index));
+    notify(index);
+  }
+  return index.deploymentBlock;
+};
+
+const runBackfill = async (contract: string, index: ContractIndex) => {
+  try {
+    // The head has to be synced first so the backfill knows where to stop
+    await syncContract(index.chainId, contract);
+
+    const head = highestBlock(index.ranges);
+    if (head === null) return;
+
+    // Requests come and go while this runs, so the floor is re-read before
+    // every gap. Every chunk is persisted as it lands, so a closed tab
+    // resumes where it stopped.
+    for (;;) {
+      const floor = await backfillFloor(contract, index);
+      const gap = floor === null ? undefined : missingRanges(index.ranges, floor, head)[0];
+      if (!gap) return;
+      await scanLogs(index.chainId, { address: contract, topics: [GAME_EVENT_TOPICS] }, gap, async (chunk, logs) => {
+        await storeChunk(contract, index, chunk, logs, false);
+        return index.backfillFloors.length > 0;
+      });
+    }
+  } catch (err) {
+    // Already synced chunks are kept; the next request resumes from there
+    console.error(`Error backfilling events for ${contract}:`, err);
+  }
+};
+
+/**
+ * Backfills a contract's history down to `fromBlock`, or to its deployment
+ * block without one, for as long as the returned release function has not
+ * been called.
+ */
+export const requestBackfill = (chainId: number, contract: string, fromBlock: number | null = null): (() => void) => {
+  const index = getIndex(chainId, contract);
+  index.backfillFloors.push(fromBlock);
+
+  if (!index.backfilling) {
+    index.backfilling = runBackfill(contract, index).finally(() => {
+      index.backfilling = null;
+      notify(index);
+    });
+    notify(index);
+  }
+
+  return () => {
+    const position = index.backfillFloors.indexOf(fromBlock);
+    if (position !== -1) index.backfillFloors.splice(position, 1);
+  };
+};
+
+/**
+ * React binding for the indexer. Returns the Roll events of every given
+ * contract merged newest first; `live` switches them to the WebSocket feed.
+ */
+export const useRollEvents = (contracts: string[], { live = false } = {}) => {
+  const chainId = useChainId();
+  const contractsKey = contracts.map(contract => contract.toLowerCase()).join(',');
+  const [snapshots, setSnapshots] = useState<Record<string, RollIndexSnapshot>>({});
+
+  useEffect(() => {
+    if (!contractsKey) return;
+    const unsubscribers = contractsKey.split(',').map(contract =>
+      subscribeRollEvents(chainId, contract, snapshot =>
+        setSnapshots(prev => ({ ...prev, [`${chainId}:${contract}`]: snapshot })),
+        live
+      )
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [chainId, contractsKey, live]);
+
+  const active = useMemo(
+    () => contractsKey
+      ? contractsKey.split(',').map(contract => snapshots[`${chainId}:${contract}`]).filter(Boolean)
+      : [],
+    [snapshots, chainId, contractsKey]
+  );
+  // Snapshots also change on loading flips; the merged list only changes with its events
+  const eventsRef = useRef<RollEvent[]>([]);
+  const events = useMemo(() => {
+    const merged = active.flatMap(snapshot => snapshot.events).sort(compareEvents);
+    if (!sameEvents(eventsRef.current, merged)) eventsRef.current = merged;
+    return eventsRef.current;
+  }, [active]);
+
+  return {
+    events,
+    // A chain without deployed games has nothing to wait for
+    loading: contractsKey !== '' && (active.length === 0 || active.some(snapshot => snapshot.loading)),
+    error: active.find(snapshot => snapshot.error)?.error ?? null,
+    syncedFrom: active.map(snapshot => snapshot.syncedFrom),
+    backfill: active.map(snapshot => snapshot.backfill),
+    backfilling: active.some(snapshot => snapshot.backfilling),
+    cursorKey: active
+      .map(snapshot => `${snapshot.lastIndexedBlock}:${snapshot.syncedFrom}:${snapshot.backfill?.syncedBlocks}`)
+      .join(','),
+  };
+};
+
+/**
+ * Full stored history (Roll and winnings events) of one player across the
+ * given contracts, newest first. Re-reads the store whenever a sync lands.
+ */
+export const usePlayerHistory = (contracts: string[], player?: string, backfill = false) => {
+  const chainId = useChainId();
+  const { events: recentRolls, loading, error, cursorKey, ...progress } = useRollEvents(contracts);
+  const contractsKey = contracts.map(contract => contract.toLowerCase()).join(',');
+  const [stored, setStored] = useState<IndexedEvent[]>([]);
+  const [backfillAttempt, setBackfillAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!backfill || !contractsKey) return;
+    const releases = contractsKey.split(',').map(contract => requestBackfill(chainId, contract));
+    return () => releases.forEach(release => release());
+  }, [chainId, contractsKey, backfill, backfillAttempt]);
+
+  useEffect(() => {
+    if (!player || !contractsKey) {
+      setStored([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all(contractsKey.split(',').map(contract => loadPlayerEvents(chainId, contract, player)))
+      .then(results => {
+        const next = results.flat();
+        if (!cancelled) setStored(prev => sameEvents(prev, next) ? prev : next);
+      })
+      .catch(err => console.error("Error loading player history:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, contractsKey, player, cursorKey]);
+
+  // In-memory events cover the case where IndexedDB is unavailable
+  const events = useMemo(() => {
+    const fromMemory = player ? recentRolls.filter(event => event.player === player.toLowerCase()) : [];
+    return mergeEvents<IndexedEvent>(stored, fromMemory);
+  }, [stored, recentRolls, player]);
+
+  return {
+    events,
+    loading,
+    error,
+    backfill: progress.backfill,
+    backfilling: progress.backfilling,
+    retryBackfill: () => setBackfillAttempt(attempt => attempt + 1),
+  };
+};
+
+/**
+ * Every stored event of every player across the given contracts, newest
+ * first, for views that aggregate over all bets. Without `backfill` it only
+ * serves what is already indexed. With it, the full history is loaded, or
+ * only the blocks after `since` (unix seconds) when that is set. While a
+ * backfill is running the store is re-read at most every
+ * HISTORY_RELOAD_INTERVAL. `complete` says the requested range is indexed.
+ */
+export const useContractHistory = (contracts: string[], backfill = false, since: number | null = null) => {
+  const chainId = useChainId();
+  const { events: recentRolls, loading, error, cursorKey, ...progress } = useRollEvents(contracts);
+  const contractsKey = contracts.map(contract => contract.toLowerCase()).join(',');
+  const [stored, setStored] = useState<IndexedEvent[]>([]);
+  const [sinceBlock, setSinceBlock] = useState<number | null>(null);
+  const lastLoadRef = useRef(0);
+
+  useEffect(() => {
+    setSinceBlock(null);
+    if (since === null || !contractsKey) return;
+    let cancelled = false;
+    findBlockAtTimestamp(chainId, since)
+      .then(block => {
+        if (!cancelled) setSinceBlock(block);
+      })
+      .catch(err => console.error("Error finding the first block of the history window:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, contractsKey, since]);
+
+  useEffect(() => {
+    if (!contractsKey || !backfill || (since !== null && sinceBlock === null)) return;
+    const floor = since === null ? null : sinceBlock;
+    const releases = contractsKey.split(',').map(contract => requestBackfill(chainId, contract, floor));
+    return () => releases.forEach(release => release());
+  }, [chainId, contractsKey, backfill, since, sinceBlock]);
+
+  useEffect(() => {
+    if (!contractsKey) {
+      setStored([]);
+      return;
+    }
+    let cancelled = false;
+    const wait = Math.max(lastLoadRef.current + HISTORY_RELOAD_INTERVAL - Date.now(), 0);
+    const timer = setTimeout(() => {
+      lastLoadRef.current = Date.now();
+      Promise.all(contractsKey.split(',').map(contract => loadContractEvents(chainId, contract)))
+        .then(results => {
+          const next = results.flat();
+          if (!cancelled) setStored(prev => sameEvents(prev, next) ? prev : next);
+        })
+        .catch(err => console.error("Error loading contract history:", err));
+    }, wait);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [chainId, contractsKey, cursorKey]);
+
+  const complete = since === null
+    ? progress.backfill.length > 0 && progress.backfill.every(contract => contract?.complete)
+    : sinceBlock !== null && progress.syncedFrom.length > 0
+      && progress.syncedFrom.every(from => from !== null && from <= sinceBlock);
+
+  const events = useMemo(() => mergeEvents<IndexedEvent>(stored, recentRolls), [stored, recentRolls]);
+
+  return {
+    events,
+    loading,
+    error,
+    complete,
+    backfill: progress.backfill,
+    backfilling: progress.backfilling,
+  };
+};
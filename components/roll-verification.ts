@@ -0,0 +1,81 @@
+import { getReadProvider } from './rpc-provider';
+import { resolveTimestamps } from './block-timestamps';
+import { RollEvent, decodeGameLog } from './roll-indexer';
+import { EntropyReveal, combineRandomValues, decodeReveal } from './entropy-events';
+import { GameDefinition, findGameByContract } from './games';
+
+export interface RollVerification {
+  game: GameDefinition;
+  roll: RollEvent;
+  reveal: EntropyReveal;
+  // Entropy's random number recomputed from both parties' contributions, null if the block hash was unavailable
+  expectedRandomNumber: string | null;
+  randomNumberMatches: boolean | null;
+  derivedOutcome: number;
+  derivedWon: boolean;
+  // Null while the game's outcome rule hasn't been confirmed against its contract source
+  outcomeMatches: boolean | null;
+}
+
+/**
+ * Re-derives a Roll's result from the Entropy reveal delivered in the same
+ * transaction. `txHash` is the callback transaction that emitted the Roll,
+ * not the player's flip transaction, on chain `chainId`.
+ */
+export const verifyRoll = async (txHash: string, chainId: number): Promise<RollVerification> => {
+  const provider = getReadProvider(chainId);
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    throw new Error('Transaction not found');
+  }
+
+  const timestamps = await resolveTimestamps(chainId, [receipt.blockNumber]);
+  let game: GameDefinition | undefined;
+  let roll: RollEvent | null = null;
+  for (const log of receipt.logs) {
+    game = findGameByContract(log.address, chainId);
+    if (!game) continue;
+    const event = decodeGameLog(game.contract, log, timestamps.get(receipt.blockNumber) ?? 0);
+    if (event?.eventName === 'Roll') {
+      roll = event;
+      break;
+    }
+  }
+  if (!game || !roll) {
+    throw new Error('No Roll event in this transaction');
+  }
+
+  const contract = game.contract.toLowerCase();
+  const reveal = receipt.logs
+    .map(log => decodeReveal(log))
+    .find(candidate => candidate?.requester === contract);
+  if (!reveal) {
+    throw new Error('No Entropy reveal for this Roll in the transaction');
+  }
+
+  let blockHash: string | undefined;
+  if (reveal.useBlockhash) {
+    blockHash = (await provider.getBlock(reveal.requestBlockNumber))?.hash ?? undefined;
+  }
+  const expectedRandomNumber = !reveal.useBlockhash || blockHash
+    ? combineRandomValues(reveal.userRandomNumber, reveal.providerRevelation, blockHash)
+    : null;
+
+  const derivedOutcome = game.deriveOutcome(BigInt(reveal.randomNumber));
+  const derivedWon = game.isWin(roll.choice, derivedOutcome);
+
+  return {
+    game,
+    roll,
+    reveal,
+    expectedRandomNumber,
+    randomNumberMatches: expectedRandomNumber === null
+      ? null
+      : expectedRandomNumber.toLowerCase() === reveal.randomNumber.toLowerCase(),
+    derivedOutcome,
+    derivedWon,
+    outcomeMatches: game.outcomeRuleSource === null
+      ? null
+      : derivedOutcome === roll.outcome && derivedWon === roll.won,
+  };
+};
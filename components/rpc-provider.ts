@@ -0,0 +1,94 @@
+import { ethers } from 'ethers';
+import { getDeployment } from './deployments';
+
+// Calls issued in the same tick are sent as one JSON-RPC batch of up to this many requests
+export const RPC_BATCH_SIZE = 50;
+
+const REQUEST_TIMEOUT = 20000; // A stalled endpoint is abandoned after 20 seconds
+const MAX_ATTEMPTS = 6; // Per call, across all endpoints
+const BACKOFF_BASE_DELAY = 250;
+const MAX_BACKOFF_DELAY = 8000;
+
+// Node-specific wordings for "this eth_getLogs window is too wide"
+const RANGE_LIMIT_PATTERN = /block range|range (is )?too (large|wide|big)|query returned more than|more than \d+ results|too many (results|logs|blocks)|response size|exceed(s|ed)? (the )?(maximum )?(block )?range/i;
+const THROTTLE_PATTERN = /rate.?limit|too many requests|throughput|capacity|compute units|try again later/i;
+
+const messageOf = (err: unknown): string => {
+  if (!err || typeof err !== 'object') return String(err ?? '');
+  const { message, shortMessage, info, error } = err as {
+    message?: string; shortMessage?: string; info?: { error?: { message?: string } }; error?: { message?: string };
+  };
+  return [message, shortMessage, info?.error?.message, error?.message].filter(Boolean).join(' ');
+};
+
+/**
+ * True when a node refused an eth_getLogs call for spanning too many blocks
+ * or returning too many logs. Retrying won't help; a narrower window will.
+ */
+export const isRangeLimitError = (err: unknown): boolean => RANGE_LIMIT_PATTERN.test(messageOf(err));
+
+const isThrottled = (message: string) => THROTTLE_PATTERN.test(message) && !RANGE_LIMIT_PATTERN.test(message);
+
+const backoffDelay = (attempt: number) =>
+  Math.min(BACKOFF_BASE_DELAY * 2 ** attempt, MAX_BACKOFF_DELAY) * (0.5 + Math.random() / 2);
+
+/**
+ * A JSON-RPC provider over several endpoints for one chain. Rate limits,
+ * timeouts and server errors back off exponentially and move on to the next
+ * endpoint; the endpoint that last answered stays current for later calls.
+ * Errors about the request itself (reverts, range limits) are returned as-is.
+ */
+class RotatingRpcProvider extends ethers.JsonRpcProvider {
+  private readonly endpoints: ethers.FetchRequest[];
+  private current = 0;
+
+  constructor(urls: string[], chainId: number) {
+    // The network is known up front, so ethers doesn't probe for it
+    super(urls[0], chainId, { batchMaxCount: RPC_BATCH_SIZE, staticNetwork: true });
+    this.endpoints = urls.map(url => {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = REQUEST_TIMEOUT;
+      request.retryFunc = async () => false; // 429s are retried below, against the next endpoint
+      return request;
+    });
+  }
+
+  _getConnection(): ethers.FetchRequest {
+    return this.endpoints[this.current].clone();
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    for (let attempt = 0; ; attempt++) {
+      const endpoint = this.current;
+      try {
+        const results = await super._send(payload);
+        // Node errors come back inside the results, one per call in the batch
+        const throttled = results.some(result => isThrottled((result as Partial<ethers.JsonRpcError>).error?.message ?? ''));
+        if (!throttled) return results;
+        if (attempt + 1 >= MAX_ATTEMPTS) return results;
+      } catch (err) {
+        // A 4xx other than 429 means the request is wrong, not the endpoint
+        const status = (err as { response?: { statusCode?: number } }).response?.statusCode;
+        if (status && status >= 400 && status < 500 && status !== 429) throw err;
+        if (attempt + 1 >= MAX_ATTEMPTS) throw err;
+      }
+
+      // Another call may have rotated already while this one was waiting
+      if (this.current === endpoint) this.current = (endpoint + 1) % this.endpoints.length;
+      await new Promise(r => setTimeout(r, backoffDelay(attempt)));
+    }
+  }
+}
+
+const providers = new Map<number, ethers.JsonRpcProvider>();
+
+// One provider per chain for the whole app so every reader shares the same connection
+export const getReadProvider = (chainId: number): ethers.JsonRpcProvider => {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    const { chain, rpcUrl, fallbackRpcUrls } = getDeployment(chainId);
+    provider = new RotatingRpcProvider([rpcUrl, ...fallbackRpcUrls], chain.id);
+    providers.set(chainId, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,134 @@
+import {
+  Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RpcRequestError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+  decodeErrorResult,
+  parseAbi,
+} from 'viem';
+import { getDeployment } from './deployments';
+
+export type TxErrorKind =
+  | 'rejected'
+  | 'insufficientFunds'
+  | 'belowMinimum'
+  | 'entropyFee'
+  | 'rpc'
+  | 'reverted'
+  | 'unknown';
+
+export interface TxErrorInfo {
+  kind: TxErrorKind;
+  title: string;
+  message: string;
+}
+
+// Reverts raised inside Pyth Entropy while the game requests randomness
+const ENTROPY_ERRORS_ABI = parseAbi([
+  'error InsufficientFee()',
+  'error NoSuchProvider()',
+  'error OutOfRandomness()',
+]);
+
+const USER_REJECTED_CODE = 4001;
+
+// Pulls the revert reason or custom error name out of a reverted call, decoding the raw data ourselves when viem couldn't
+const decodeRevert = (revert: ContractFunctionRevertedError, abi: Abi): string | undefined => {
+  if (revert.data?.errorName && revert.data.errorName !== 'Error') return revert.data.errorName;
+  if (revert.reason) return revert.reason;
+  if (!revert.raw) return undefined;
+  try {
+    const decoded = decodeErrorResult({ abi: [...abi, ...ENTROPY_ERRORS_ABI], data: revert.raw });
+    return decoded.errorName === 'Error' ? String(decoded.args?.[0]) : decoded.errorName;
+  } catch {
+    return undefined;
+  }
+};
+
+const describeRevert = (reason: string | undefined): TxErrorInfo => {
+  if (reason && /InsufficientFee|entropy fee/i.test(reason)) {
+    return {
+      kind: 'entropyFee',
+      title: 'Randomness fee not covered',
+      message: 'The bet could not pay the Pyth Entropy fee for its random number. Try again in a moment or with a slightly larger bet.',
+    };
+  }
+  if (reason && /min(imum)?[\s_]*bet|too (small|low)|below min/i.test(reason)) {
+    return {
+      kind: 'belowMinimum',
+      title: 'Bet below the minimum',
+      message: 'The contract rejected this bet because it is smaller than its minimum bet amount.',
+    };
+  }
+  return {
+    kind: 'reverted',
+    title: 'Transaction reverted',
+    message: reason ? `The contract rejected the transaction: ${reason}` : 'The contract rejected the transaction.',
+  };
+};
+
+/**
+ * Turns an error thrown while sending a game transaction into something a
+ * player can act on. Revert data is decoded against the game's ABI plus
+ * Pyth Entropy's errors, since a randomness request can fail inside Entropy.
+ */
+export const describeTxError = (error: unknown, abi: Abi, chainId: number): TxErrorInfo => {
+  if (!(error instanceof BaseError)) {
+    return {
+      kind: 'unknown',
+      title: 'Something went wrong',
+      message: error instanceof Error ? error.message : 'The transaction could not be sent.',
+    };
+  }
+
+  const rejected = error.walk(err =>
+    err instanceof UserRejectedRequestError ||
+    (err as { code?: number }).code === USER_REJECTED_CODE
+  );
+  if (rejected) {
+    return {
+      kind: 'rejected',
+      title: 'Transaction cancelled',
+      message: 'You rejected the request in your wallet, so nothing was sent.',
+    };
+  }
+
+  const { chain, label } = getDeployment(chainId);
+  if (error.walk(err => err instanceof InsufficientFundsError)) {
+    return {
+      kind: 'insufficientFunds',
+      title: `Not enough ${chain.nativeCurrency.symbol}`,
+      message: `Your wallet does not hold enough ${chain.nativeCurrency.symbol} to cover the bet and the gas for it.`,
+    };
+  }
+
+  const revert = error.walk(err => err instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    return describeRevert(decodeRevert(revert, abi));
+  }
+
+  const rpcFailure = error.walk(err =>
+    err instanceof HttpRequestError ||
+    err instanceof WebSocketRequestError ||
+    err instanceof TimeoutError ||
+    err instanceof RpcRequestError
+  );
+  if (rpcFailure) {
+    return {
+      kind: 'rpc',
+      title: 'Network problem',
+      message: `The ${label} RPC node could not be reached or returned an error. Check your connection and try again.`,
+    };
+  }
+
+  return {
+    kind: 'unknown',
+    title: 'Something went wrong',
+    message: error.shortMessage,
+  };
+};
@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IMockEntropy {
+    function getDefaultProvider() external view returns (address);
+    function getFee(address provider) external view returns (uint128);
+    function requestWithCallback(address provider, bytes32 userRandomNumber) external payable returns (uint64);
+}
+
+/// @notice Local-devnet stand-ins for the deployed coinflip and dice games,
+/// which aren't vendored in this repo. They expose the same ABI as
+/// `components/coinflip-abi.ts` and `components/dice-abi.tsx`, so the app runs
+/// a full bet → reveal → Roll → withdraw cycle against MockEntropy. Outcomes
+/// follow the rules in `components/games.ts`, which are themselves assumed,
+/// so these contracts don't tell you anything about the real ones.
+abstract contract DevnetGame {
+    struct Bet {
+        address player;
+        uint256 amount;
+        uint256 choice;
+        uint64 sequenceNumber;
+    }
+
+    error BetTooSmall();
+    error InvalidChoice();
+    error NotEntropy();
+    error NotOwner();
+    error NothingToWithdraw();
+    error InsufficientFunds();
+
+    event Roll(address player, uint256 amount, uint256 choice, uint256 outcome, bool won);
+    event WinningsDeposited(address player, uint256 amount);
+    event WinningsWithdrawn(address player, uint256 amount);
+
+    IMockEntropy public immutable entropy;
+    address public gameOwner;
+    uint256 public MIN_BET_AMOUNT = 0.01 ether;
+
+    mapping(uint256 => Bet) public bets;
+    mapping(address => uint256) public playerBalances;
+
+    constructor(address _entropyAddress) {
+        entropy = IMockEntropy(_entropyAddress);
+        gameOwner = msg.sender;
+    }
+
+    receive() external payable {}
+
+    modifier onlyOwner() {
+        if (msg.sender != gameOwner) revert NotOwner();
+        _;
+    }
+
+    /// @notice Places a bet of `msg.value`. The Entropy fee is paid from the
+    /// contract's own balance, so the whole stake shows up in the Roll event.
+    function flip(uint256 choice) external payable {
+        if (msg.value < MIN_BET_AMOUNT) revert BetTooSmall();
+        if (!_isValidChoice(choice)) revert InvalidChoice();
+
+        address provider = entropy.getDefaultProvider();
+        uint128 fee = entropy.getFee(provider);
+        bytes32 userRandomNumber = keccak256(abi.encodePacked(msg.sender, block.number, block.prevrandao));
+        uint64 sequence = entropy.requestWithCallback{value: fee}(provider, userRandomNumber);
+        bets[sequence] = Bet({player: msg.sender, amount: msg.value, choice: choice, sequenceNumber: sequence});
+    }
+
+    function _entropyCallback(uint64 sequence, address, bytes32 randomNumber) external {
+        if (msg.sender != address(entropy)) revert NotEntropy();
+        Bet memory bet = bets[sequence];
+        delete bets[sequence];
+
+        uint256 outcome = _outcome(uint256(randomNumber));
+        bool won = _isWin(bet.choice, outcome);
+        if (won) {
+            uint256 payout = _payout(bet.amount, bet.choice);
+            playerBalances[bet.player] += payout;
+            emit WinningsDeposited(bet.player, payout);
+        }
+        emit Roll(bet.player, bet.amount, bet.choice, outcome, won);
+    }
+
+    function getPlayerBalance(address _player) external view returns (uint256) {
+        return playerBalances[_player];
+    }
+
+    function withdrawWinnings() external {
+        uint256 amount = playerBalances[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        playerBalances[msg.sender] = 0;
+        emit WinningsWithdrawn(msg.sender, amount);
+        payable(msg.sender).transfer(amount);
+    }
+
+    function withdrawOwnerFunds(uint256 _amount) external onlyOwner {
+        if (_amount > address(this).balance) revert InsufficientFunds();
+        payable(gameOwner).transfer(_amount);
+    }
+
+    function changeMinBetAmount(uint256 newMinBet) external onlyOwner {
+        MIN_BET_AMOUNT = newMinBet;
+    }
+
+    function changeOwner(address newOwner) external onlyOwner {
+        gameOwner = newOwner;
+    }
+
+    function _isValidChoice(uint256 choice) internal pure virtual returns (bool);
+    function _outcome(uint256 randomNumber) internal pure virtual returns (uint256);
+    function _isWin(uint256 choice, uint256 outcome) internal pure virtual returns (bool);
+    function _payout(uint256 amount, uint256 choice) internal pure virtual returns (uint256);
+}
+
+/// @notice Heads is 0 and tails is 1, a win pays 2x.
+contract DevnetCoinFlip is DevnetGame {
+    constructor(address _entropyAddress) DevnetGame(_entropyAddress) {}
+
+    function _isValidChoice(uint256 choice) internal pure override returns (bool) {
+        return choice < 2;
+    }
+
+    function _outcome(uint256 randomNumber) internal pure override returns (uint256) {
+        return randomNumber % 2;
+    }
+
+    function _isWin(uint256 choice, uint256 outcome) internal pure override returns (bool) {
+        return choice == outcome;
+    }
+
+    function _payout(uint256 amount, uint256) internal pure override returns (uint256) {
+        return amount * 2;
+    }
+}
+
+/// @notice The choice is a win chance from 1 to 99, a win pays 97 / winChance.
+contract DevnetDice is DevnetGame {
+    constructor(address _entropyAddress) DevnetGame(_entropyAddress) {}
+
+    function _isValidChoice(uint256 choice) internal pure override returns (bool) {
+        return choice >= 1 && choice <= 99;
+    }
+
+    function _outcome(uint256 randomNumber) internal pure override returns (uint256) {
+        return randomNumber % 100;
+    }
+
+    function _isWin(uint256 choice, uint256 outcome) internal pure override returns (bool) {
+        return outcome < choice;
+    }
+
+    function _payout(uint256 amount, uint256 choice) internal pure override returns (uint256) {
+        return amount * 97 / choice;
+    }
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IEntropyConsumer {
+    function _entropyCallback(uint64 sequence, address provider, bytes32 randomNumber) external;
+}
+
+/// @notice Local-devnet stand-in for Pyth Entropy (v1). Deploy the game
+/// contracts with this contract's address as `_entropyAddress`, then settle
+/// bets by calling `reveal` (or the app's devnet panel) whenever you like.
+/// Events match the real contract, so the app indexes and verifies rolls the
+/// same way it does on mainnet.
+contract MockEntropy {
+    struct Request {
+        address provider;
+        uint64 sequenceNumber;
+        uint32 numHashes;
+        bytes32 commitment;
+        uint64 blockNumber;
+        address requester;
+        bool useBlockhash;
+        bool isRequestWithCallback;
+    }
+
+    error InsufficientFee();
+    error NoSuchRequest();
+
+    event RequestedWithCallback(
+        address indexed provider,
+        address indexed requestor,
+        uint64 indexed sequenceNumber,
+        bytes32 userRandomNumber,
+        Request request
+    );
+    event RevealedWithCallback(Request request, bytes32 userRandomNumber, bytes32 providerRevelation, bytes32 randomNumber);
+
+    address public immutable defaultProvider;
+    uint128 public fee;
+    uint64 public nextSequence = 1;
+
+    mapping(uint64 => Request) public requests;
+    mapping(uint64 => bytes32) public userRandomNumbers;
+
+    constructor(address provider, uint128 initialFee) {
+        defaultProvider = provider;
+        fee = initialFee;
+    }
+
+    function getDefaultProvider() external view returns (address) {
+        return defaultProvider;
+    }
+
+    function getFee(address) external view returns (uint128) {
+        return fee;
+    }
+
+    function setFee(uint128 newFee) external {
+        fee = newFee;
+    }
+
+    function requestWithCallback(address provider, bytes32 userRandomNumber) external payable returns (uint64 sequence) {
+        if (msg.value < fee) revert InsufficientFee();
+
+        sequence = nextSequence++;
+        Request memory request = Request({
+            provider: provider,
+            sequenceNumber: sequence,
+            numHashes: 0,
+            commitment: bytes32(0),
+            blockNumber: uint64(block.number),
+            requester: msg.sender,
+            useBlockhash: false,
+            isRequestWithCallback: true
+        });
+        requests[sequence] = request;
+        userRandomNumbers[sequence] = userRandomNumber;
+
+        emit RequestedWithCallback(provider, msg.sender, sequence, userRandomNumber, request);
+    }
+
+    /// @notice Settles a request the way Entropy does: the random number is
+    /// keccak256(userRandomNumber, providerRevelation, 0), so the app's
+    /// verification page agrees with it.
+    function reveal(uint64 sequence, bytes32 providerRevelation) external {
+        bytes32 userRandomNumber = userRandomNumbers[sequence];
+        bytes32 randomNumber = keccak256(abi.encodePacked(userRandomNumber, providerRevelation, bytes32(0)));
+        _deliver(sequence, providerRevelation, randomNumber);
+    }
+
+    /// @notice Settles a request with an exact random number, e.g. to force a
+    /// win or a loss. The verification page flags these as mismatches.
+    function revealWithRandomNumber(uint64 sequence, bytes32 randomNumber) external {
+        _deliver(sequence, bytes32(0), randomNumber);
+    }
+
+    /// @notice Every request still waiting on a reveal, oldest first.
+    function openRequests() external view returns (Request[] memory open) {
+        uint256 count;
+        for (uint64 sequence = 1; sequence < nextSequence; sequence++) {
+            if (requests[sequence].requester != address(0)) count++;
+        }
+        open = new Request[](count);
+        uint256 index;
+        for (uint64 sequence = 1; sequence < nextSequence; sequence++) {
+            if (requests[sequence].requester != address(0)) open[index++] = requests[sequence];
+        }
+    }
+
+    function _deliver(uint64 sequence, bytes32 providerRevelation, bytes32 randomNumber) internal {
+        Request memory request = requests[sequence];
+        if (request.requester == address(0)) revert NoSuchRequest();
+        bytes32 userRandomNumber = userRandomNumbers[sequence];
+        delete requests[sequence];
+        delete userRandomNumbers[sequence];
+
+        IEntropyConsumer(request.requester)._entropyCallback(sequence, request.provider, randomNumber);
+        emit RevealedWithCallback(request, userRandomNumber, providerRevelation, randomNumber);
+    }
+}
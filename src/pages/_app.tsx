@@ -9,6 +9,10 @@ import { RainbowKitProvider, Theme } from '@rainbow-me/rainbowkit';
 import Header from '../../components/Header'
 import { config } from '../wagmi';
 import Footer from '../../components/Footer';
+import { NotificationProvider } from '../../components/NotificationProvider';
+import NotificationCenter from '../../components/NotificationCenter';
+import DevnetPanel from '../../components/DevnetPanel';
+import { SessionStatsProvider } from '../../components/SessionStatsProvider';
 import {Tiny5} from 'next/font/google'
 import { compact } from '@headlessui/react/dist/utils/render';
 
@@ -79,7 +83,8 @@ function MyApp({ Component, pageProps }: AppProps) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={client}>
         <RainbowKitProvider modalSize="compact" theme={myCustomTheme}>
-          
+          <NotificationProvider>
+           <SessionStatsProvider>
            <div className={`flex flex-col min-h-screen bg-[#252034] ${tiny5.variable}`}>
                 <div>
                   <Header/>
@@ -89,6 +94,10 @@ function MyApp({ Component, pageProps }: AppProps) {
                 </main>       
                 <Footer />
               </div>
+            <NotificationCenter />
+            <DevnetPanel />
+           </SessionStatsProvider>
+          </NotificationProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,81 @@
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useAccount, useReadContracts } from 'wagmi';
+import { useContractHistory } from '../../../components/roll-indexer';
+import { useGames } from '../../../components/games';
+import HousePanel from '../../../components/HousePanel';
+import NotDeployed from '../../../components/NotDeployed';
+
+function Admin() {
+  const { address, isConnected } = useAccount();
+  const games = useGames();
+  const { data: owners, isLoading, refetch } = useReadContracts({
+    contracts: games.map(game => ({
+      chainId: game.chainId,
+      abi: game.abi,
+      address: game.contract,
+      functionName: 'gameOwner',
+    })),
+  });
+
+  // Each contract has its own owner, so only show the ones this wallet controls
+  const ownedGames = games.flatMap((game, index) => {
+    const owner = owners?.[index]?.result;
+    return typeof owner === 'string' && address && owner.toLowerCase() === address.toLowerCase()
+      ? [{ game, owner }]
+      : [];
+  });
+
+  const { events, backfill } = useContractHistory(games.map(game => game.contract), ownedGames.length > 0);
+  const historyComplete = backfill.length > 0 && backfill.every(progress => progress?.complete);
+
+  const renderBody = () => {
+    if (games.length === 0) return <NotDeployed />;
+    if (!isConnected) return <p className="text-center">Connect the owner wallet to manage the house</p>;
+    if (isLoading) {
+      return (
+        <div className="flex justify-center">
+          <div className="bg-gray-300 rounded-xl p-2"><div className="loader"></div></div>
+        </div>
+      );
+    }
+    if (ownedGames.length === 0) {
+      return <p className="text-center text-red-400">This wallet doesn&apos;t own any of the game contracts</p>;
+    }
+    return ownedGames.map(({ game, owner }) => (
+      <HousePanel
+        key={game.id}
+        game={game}
+        owner={owner}
+        events={events}
+        historyComplete={historyComplete}
+        onOwnerChanged={() => refetch()}
+      />
+    ));
+  };
+
+  return (
+    <>
+      <Head>
+        <title>House | Broflip</title>
+        <meta
+          content="Bankroll and settings for the Broflip game contracts"
+          name="description"
+        />
+        <link href="/favicon.png" rel="icon" />
+      </Head>
+      <div className="mx-auto w-full max-w-4xl p-4 text-white">
+        <h1 className="text-3xl font-bold text-center mb-6">HOUSE</h1>
+
+        {renderBody()}
+
+        <div className="flex justify-center mt-8">
+          <Link href="/" className="text-white underline">Back to Broflip</Link>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default Admin;
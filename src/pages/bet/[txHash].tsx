@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { formatEther } from 'viem';
+import { BetDetails, loadBetDetails } from '../../../components/bet-details';
+import DetailRow from '../../../components/DetailRow';
+import { explorerAddressUrl, explorerName, explorerTxUrl } from '../../../components/explorer';
+import { betUrl, useLinkedChainId, verifyUrl } from '../../../components/bet-links';
+import { formatAmount } from '../../../components/format-amount';
+import { nativeSymbol } from '../../../components/deployments';
+
+function BetPage() {
+  const router = useRouter();
+  const txHash = typeof router.query.txHash === 'string' ? router.query.txHash : undefined;
+  const chainId = useLinkedChainId();
+  const [bet, setBet] = useState<BetDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!txHash) return;
+    let cancelled = false;
+    setBet(null);
+    setError(null);
+
+    loadBetDetails(txHash, chainId)
+      .then(details => {
+        if (!cancelled) setBet(details);
+      })
+      .catch(err => {
+        console.error("Error loading bet:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load this bet');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [txHash, chainId]);
+
+  const copyLink = async () => {
+    if (!txHash) return;
+    try {
+      // Rebuilt rather than copied, so links opened without a chain gain one
+      await navigator.clipboard.writeText(`${window.location.origin}${betUrl(txHash, chainId)}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Error copying link:", err);
+    }
+  };
+
+  const symbol = nativeSymbol(chainId);
+
+  const renderBet = ({ game, roll, payout, ...tx }: BetDetails) => (
+    <>
+      <div className={`p-6 rounded-lg text-center mb-6 ${
+        roll.won
+          ? 'bg-green-100 border border-green-400 text-green-700'
+          : 'bg-red-100 border border-red-400 text-red-700'
+      }`}>
+        <p className="text-lg">{game.icon} {game.name}</p>
+        <h2 className="text-4xl font-extrabold">
+          {roll.won ? `WON ${formatAmount(payout)} ${symbol}` : `LOST ${formatAmount(roll.amount)} ${symbol}`}
+        </h2>
+      </div>
+
+      <DetailRow label="Player">
+        <Link href={`/player/${roll.player}`} className="font-mono underline">
+          {roll.player.slice(0, 6)}...{roll.player.slice(-4)}
+        </Link>
+      </DetailRow>
+      <DetailRow label="Stake">{formatEther(roll.amount)} {symbol}</DetailRow>
+      <DetailRow label="Choice">{game.formatChoice(roll.choice)}</DetailRow>
+      <DetailRow label="Outcome">{game.formatOutcome(roll.outcome)}</DetailRow>
+      <DetailRow label="Payout">{formatEther(payout)} {symbol}</DetailRow>
+      <DetailRow label="Block time">
+        {tx.timestamp ? new Date(tx.timestamp * 1000).toLocaleString() : 'Unknown'} (block {tx.blockNumber})
+      </DetailRow>
+      <DetailRow label="Gas cost">
+        {tx.flipGas ? (
+          <a href={explorerTxUrl(tx.flipGas.transactionHash, chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+            {formatEther(tx.flipGas.gasCost)} {symbol} ({tx.flipGas.gasUsed.toString()} gas)
+          </a>
+        ) : 'Unknown'}
+      </DetailRow>
+      <DetailRow label="Callback gas">{formatEther(tx.callbackGasCost)} {symbol} ({tx.callbackGasUsed.toString()} gas)</DetailRow>
+      <DetailRow label="Settled by">
+        <a href={explorerAddressUrl(tx.from, chainId)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+          {tx.from.slice(0, 6)}...{tx.from.slice(-4)}
+        </a>
+      </DetailRow>
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-center mt-6">
+        <button onClick={copyLink} className="bg-gray-300 rounded-xl p-2 px-4 text-black">
+          {copied ? 'Link copied' : 'Copy link'}
+        </button>
+        <Link href={verifyUrl(tx.transactionHash, chainId)} className="bg-gray-300 rounded-xl p-2 px-4 text-black text-center">
+          Verify result
+        </Link>
+        <a
+          href={explorerTxUrl(tx.transactionHash, chainId)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="bg-gray-300 rounded-xl p-2 px-4 text-black text-center"
+        >
+          View on {explorerName(chainId)}
+        </a>
+      </div>
+    </>
+  );
+
+  return (
+    <>
+      <Head>
+        <title>Bet details | Broflip</title>
+        <meta
+          content="A single Broflip bet: stake, choice, outcome and payout"
+          name="description"
+        />
+        <link href="/favicon.png" rel="icon" />
+      </Head>
+      <div className="mx-auto w-full max-w-lg p-4 text-white">
+        {error ? (
+          <p className="text-center text-red-400">{error}</p>
+        ) : bet ? (
+          renderBet(bet)
+        ) : (
+          <div className="flex justify-center p-4">
+            <div className="bg-gray-300 rounded-xl p-2"><div className="loader"></div></div>
+          </div>
+        )}
+        <div className="flex justify-center mt-8">
+          <Link href="/" className="text-white underline">Back to Broflip</Link>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default BetPage;
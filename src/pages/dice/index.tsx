@@ -1,173 +1,83 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Range } from 'react-range';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent, useBalance } from 'wagmi';
-import { parseEther, Hex, formatEther } from 'viem';
-import { ABI } from "../../../components/dice-abi";
-import { readContract } from '@wagmi/core';
-import {config} from "../../wagmi"
+import { useBalance } from 'wagmi';
+import { formatEther } from 'viem';
 import Image from "next/image";
 import Modal from "../../../components/Modal"
 import { useRouter } from "next/router";
-import PlayerEvents from "../../../components/dicePlayerEvents";
+import PlayerEvents from "../../../components/PlayerEvents";
 import Head from "next/head";
 import CombinedGameEvents from "../../../components/combined-events"
+import PendingBetNotice from "../../../components/PendingBetNotice";
+import ErrorBanner from "../../../components/ErrorBanner";
+import { useGameSession } from "../../../components/game-session";
+import { GameDefinition, getGameSpec, useGame } from "../../../components/games";
+import NotDeployed from "../../../components/NotDeployed";
+import { useBetValidation } from "../../../components/bet-validation";
+import { useAutoBet } from "../../../components/auto-bet";
+import { verifyUrl } from "../../../components/bet-links";
+import { nativeSymbol } from "../../../components/deployments";
+import AutoBetPanel from "../../../components/AutoBetPanel";
+import SessionStatsPanel from "../../../components/SessionStatsPanel";
 import Link from "next/link";
 
-const CONTRACT_ADDRESS: Hex = "0xd60aF0bbE2C6EFeD5651Ef48feb0BF0d77323D9e";
-
-function Roll() {
+function Roll({ game }: { game: GameDefinition }) {
     const [winChance, setWinChance] = useState(50);
-    const { address: playerAddress, isConnected } = useAccount();
-    const { data: balanceData } = useBalance({ address: playerAddress });
     const [bet, setBet] = useState<string>('5.0');
     const [payout, setPayout] = useState(0);
-    const [isLoadingOutcome, setIsLoadingOutcome] = useState<boolean>(false);
-    const [outcome, setOutcome] = useState<{ outcome: bigint, won: boolean } | null>(null);
-    const [showResultScreen, setShowResultScreen] = useState<boolean>(false);
     const [multiplier, setMultiplier] = useState<number>(0);
     const [rollOver, setRollOver] = useState(0);
     const min = 4;
     const max = 96;
+    const symbol = nativeSymbol(game.chainId);
 
-    const balanceDataFormatted = balanceData?.value ? parseFloat(formatEther(balanceData.value)) : 0;
-    const diceRollAudioRef = useRef<HTMLAudioElement | null>(null); 
-
-    const { writeContract: flip, error: flipError} = useWriteContract();
-   
-
-    const [withdrawableBalance, setWithdrawableBalance] = useState<bigint>(0n);
-    const { data: withdrawTxHash, writeContract: withdraw, isPending: isWithdrawTxPending, error: withdrawError } = useWriteContract();
-    const { isLoading: isWithdrawTxConfirming, isSuccess: isWithdrawTxConfirmed } = useWaitForTransactionReceipt({
-        hash: withdrawTxHash,
+    const session = useGameSession({
+        chainId: game.chainId,
+        contract: game.contract,
+        abi: game.abi,
+        encodeChoice: (chance: number) => BigInt(chance),
     });
-
-    const playerAddressRef = useRef(playerAddress);
-    useEffect(() => {
-        playerAddressRef.current = playerAddress;
-    }, [playerAddress]);
-
-   const fetchPlayerBalance = async () => {
-    if (!playerAddress) {
-      setWithdrawableBalance(0n); // Reset if no player connected
-      return;
-    }
-    try {
-      const balance = await readContract(config, {
-        abi: ABI,
-        address: CONTRACT_ADDRESS,
-        functionName: 'getPlayerBalance',
-        args: [playerAddress],
-      });
-      setWithdrawableBalance(balance as bigint);
-    } catch (err) {
-      console.error("Error fetching player balance:", err);
-    }
-  };
-
-  useEffect(() => {
-    fetchPlayerBalance()
-  },[isConnected])
-
-  useEffect(() => {
-    fetchPlayerBalance()
-  },[showResultScreen])
-
-    useWatchContractEvent({
-        address: CONTRACT_ADDRESS,
-        abi: ABI,
-        eventName: 'Roll',
-        enabled: isLoadingOutcome,
-        onLogs(logs) {
-            const relevantLogs = logs.filter(log =>
-                (log.args as { player: string, outcome: bigint, won: boolean }).player === playerAddressRef.current
-            );
-
-            if (relevantLogs.length > 0 && isLoadingOutcome) {
-                const lastLog = relevantLogs[relevantLogs.length - 1];
-                const args = lastLog.args as { outcome: bigint, won: boolean };
-                setShowResultScreen(true);
-                setOutcome({
-                    outcome: args.outcome,
-                    won: args.won
-                });
-                setIsLoadingOutcome(false);
-                fetchPlayerBalance();
-            }
-        },
+    const {
+        phase,
+        playerAddress,
+        activeBet,
+        result: outcome,
+        error: txError,
+        clearError,
+        withdrawableBalance,
+        isAwaitingBet,
+        isBusy,
+        placeBet,
+        withdraw,
+    } = session;
+    const isWithdrawing = phase === 'withdrawing';
+    const { error: betError, minBet } = useBetValidation(game, playerAddress, bet, BigInt(winChance));
+    const autoBet = useAutoBet({
+        game,
+        session,
+        choice: winChance,
+        encodeChoice: (chance: number) => BigInt(chance),
+        setBetAmount: setBet,
+        betError,
     });
 
-    useEffect(() => {
-    if (flipError) {
-      console.error("Flip transaction write error:", flipError);
-      setIsLoadingOutcome(false);
-      setOutcome(null);
-      setShowResultScreen(false);
-   
-    }
-  }, [flipError]);
+    const { data: balanceData } = useBalance({ address: playerAddress });
+    const balanceDataFormatted = balanceData?.value ? parseFloat(formatEther(balanceData.value)) : 0;
+    const diceRollAudioRef = useRef<HTMLAudioElement | null>(null); 
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!playerAddress) {
             return;
         }
-        if (parseFloat(bet) <= 0 || isNaN(parseFloat(bet))) {
-        }
-
-        setOutcome(null);
-        setShowResultScreen(false);
-        setIsLoadingOutcome(false);
-
-        try {
-            await flip({
-                abi: ABI,
-                address: CONTRACT_ADDRESS,
-                functionName: 'flip',
-                args: [BigInt(winChance)],
-                value: parseEther(bet),
-            }); 
-            setIsLoadingOutcome(true);
-        } catch (err) {
-            console.error("Error submitting flip transaction:", err);
-        }
-    };
-
-    const handleWithdrawAndPlayAgain = async () => {
-        if (!playerAddress) {
-            return;
-        }
-        if (withdrawableBalance === 0n) {
-            setOutcome(null);
-            setShowResultScreen(false);
-            setIsLoadingOutcome(false);
+        if (betError) {
             return;
         }
 
-        try {
-            await withdraw({
-                abi: ABI,
-                address: CONTRACT_ADDRESS,
-                functionName: 'withdrawWinnings',
-            }); 
-            setIsLoadingOutcome(false);
-        } catch (err) {
-            console.error("Error withdrawing:", err);
-            setOutcome(null);
-            setShowResultScreen(false);
-        }
+        await placeBet(winChance, bet);
     };
 
-    useEffect(() => {
-        if (isWithdrawTxConfirmed) {
-            setOutcome(null);
-            setShowResultScreen(false);
-        } else if (withdrawError) {
-            setOutcome(null);
-            setShowResultScreen(false);
-        }
-    }, [isWithdrawTxConfirmed, withdrawError]);
-
-    const isBetDisabled = isWithdrawTxPending || isWithdrawTxConfirming || isLoadingOutcome;
+    const isBetDisabled = isBusy || autoBet.running;
 
     const audioRef = useRef<HTMLAudioElement | null>(null);
     const prevWinChanceRef = useRef(winChance);
@@ -294,6 +204,11 @@ function Roll() {
         <link href="/favicon.png" rel="icon" />
       </Head>
             <div className="w-full max-w-2xl mx-auto p-4 sm:p-8 flex flex-col items-center gap-6 sm:gap-10">
+                {txError && (
+                    <div className="w-full">
+                        <ErrorBanner error={txError} onDismiss={clearError} />
+                    </div>
+                )}
                 <div className="flex flex-col gap-6 w-full border border-2 border-white p-4 rounded-xl text-lg sm:text-2xl items-center">
 
                 
@@ -301,26 +216,9 @@ function Roll() {
                         <div className="flex flex-col sm:flex-1 min-w-0">
                             <p className="text-sm sm:text-base text-left">Bet amount</p>
                             <input
-                                type="number" step="0.5" min="1" max={balanceDataFormatted}
+                                type="number" step="0.5" min={minBet !== undefined ? formatEther(minBet) : "1"} max={balanceDataFormatted}
                                 value={bet} disabled={isBetDisabled || !playerAddress}
-                                onChange={(e) => {
-        const value = e.target.value;
-        const minValue = 1;
-                                
-       
-        if (value === '') {
-            setBet('');
-            return;
-        }
-
-        const parsedValue = parseFloat(value);
-
-        if (!isNaN(parsedValue) && parsedValue >= minValue) {
-            setBet(value);
-        } else {
-            alert("Minimum bet amount is 1 sonic")
-        }
-    }}
+                                onChange={(e) => setBet(e.target.value)}
                                 className="text-center bg-gray-300 text-black rounded-sm py-1 w-full"
                             />
                         </div>
@@ -352,26 +250,9 @@ function Roll() {
                     <div className="sm:hidden flex flex-col w-full text-white">
                         <p className="text-sm text-left">Bet amount</p>
                         <input
-                            type="number" step="0.5" min="1" max={balanceDataFormatted}
+                            type="number" step="0.5" min={minBet !== undefined ? formatEther(minBet) : "1"} max={balanceDataFormatted}
                             value={bet} disabled={isBetDisabled || !playerAddress}
-                            onChange={(e) => {
-        const value = e.target.value;
-        const minValue = 1;
-
-       
-        if (value === '') {
-            setBet('');
-            return;
-        }
-
-        const parsedValue = parseFloat(value);
-
-        if (!isNaN(parsedValue) && parsedValue >= minValue) {
-            setBet(value);
-        } else {
-            alert("Minimum bet amount is 1 sonic")
-        }
-    }}
+                            onChange={(e) => setBet(e.target.value)}
                             className="text-center bg-gray-300 text-black rounded-sm py-1 w-full"
                         />
                     </div>
@@ -398,21 +279,29 @@ function Roll() {
                         </div>
                     </div>
 
-                    {isLoadingOutcome ? (
+                    {activeBet?.restored && isAwaitingBet ? (
+                        <PendingBetNotice bet={activeBet} />
+                    ) : isAwaitingBet ? (
                         <button className="bg-gray-300 rounded-xl w-2/3 sm:w-1/3 p-2 text-black flex justify-center"><div className="loader m-0 p-0"></div></button>
-                    ) : showResultScreen && outcome ? (
+                    ) : (phase === 'resolved' || isWithdrawing) && outcome ? (
                         <>
                             <button
-                                onClick={handleWithdrawAndPlayAgain}
-                                disabled={isWithdrawTxPending || isWithdrawTxConfirming}
+                                onClick={withdraw}
+                                disabled={isWithdrawing}
                                 className={`${outcome.won ? ("bg-green-300") : ("bg-gray-300")} rounded-xl w-2/3 sm:w-1/3 p-2 text-black flex justify-center`}
                             >
-                                {isWithdrawTxPending || isWithdrawTxConfirming ? "Claiming" : (withdrawableBalance > 0n ? 'Claim' : 'Play Again')}
+                                {isWithdrawing ? "Claiming" : (withdrawableBalance > 0n ? 'Claim' : 'Play Again')}
                             </button>
+                            <Link href={verifyUrl(outcome.transactionHash, game.chainId)} className="text-sm text-white underline">
+                                Verify this result
+                            </Link>
                         </>
                     ) : (
                         <>
-                            <button onClick={handleSubmit} disabled={isBetDisabled} className="bg-gray-300 rounded-xl w-2/3 sm:w-1/3 p-2 text-black">Roll</button>
+                            {betError && playerAddress && (
+                                <p className="text-sm sm:text-base text-red-400 text-center">{betError}</p>
+                            )}
+                            <button onClick={handleSubmit} disabled={isBetDisabled || !!betError} className="bg-gray-300 rounded-xl w-2/3 sm:w-1/3 p-2 text-black disabled:opacity-50 disabled:cursor-not-allowed">Roll</button>
                         </>
                     )}
                 </div>
@@ -467,6 +356,13 @@ function Roll() {
                     /><p className="px-3 text-sm sm:text-base">100</p>
                       
                 </div>
+                <AutoBetPanel
+                    autoBet={autoBet}
+                    baseBet={bet}
+                    disabled={!playerAddress || isBusy}
+                    symbol={symbol}
+                />
+                <SessionStatsPanel />
                 <Link href="/dice/try" className="text-white">
                   Try For Free
                 </Link>
@@ -486,14 +382,21 @@ function Roll() {
         </div>
       </Modal>
       <Modal isOpen={isBetsModalOpen} onClose={closeModal}>
-        <PlayerEvents/>
+        <PlayerEvents gameId="dice" />
         <div className='flex flex-row justify-between mt-2 text-white items-center'>
-        <p>Your withdrawable balance: {formatEther(withdrawableBalance)} Sei</p>
-        <button className='text-white bg-green-700 p-1 px-2 rounded' onClick={handleWithdrawAndPlayAgain} >Withdraw</button>
+        <p>Your withdrawable balance: {formatEther(withdrawableBalance)} {symbol}</p>
+        <button className='text-white bg-green-700 p-1 px-2 rounded' onClick={withdraw} disabled={isWithdrawing}>Withdraw</button>
         </div>
       </Modal>
         </>
     );
 }
 
-export default Roll;
\ No newline at end of file
+// Remounted per network so no session state carries over between deployments
+function RollPage() {
+    const game = useGame('dice');
+    if (!game) return <NotDeployed game={getGameSpec('dice')} />;
+    return <Roll key={game.chainId} game={game} />;
+}
+
+export default RollPage;
\ No newline at end of file
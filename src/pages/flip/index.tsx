@@ -1,93 +1,75 @@
 'use client'
-import React, { useState, useEffect, useRef } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent} from 'wagmi';
-import { parseEther, Hex, formatEther } from 'viem';
-import { ABI } from "../../../components/coinflip-abi";
+import React, { useState, useEffect } from 'react';
+import { formatEther } from 'viem';
 import Image from 'next/image';
-import { readContract } from '@wagmi/core';
-import { config } from '../../wagmi';
 import Head from 'next/head';
 import Modal from '../../../components/Modal';
 import { useRouter } from 'next/router';
-import PlayerEvents from "../../../components/coinflipPlayerEvents";
+import PlayerEvents from "../../../components/PlayerEvents";
 import CombinedGameEvents from "../../../components/combined-events";
+import PendingBetNotice from "../../../components/PendingBetNotice";
+import ErrorBanner from "../../../components/ErrorBanner";
+import { useGameSession } from "../../../components/game-session";
+import { GameDefinition, getGameSpec, useGame } from "../../../components/games";
+import NotDeployed from "../../../components/NotDeployed";
+import { useBetValidation } from "../../../components/bet-validation";
+import { useAutoBet } from "../../../components/auto-bet";
+import { verifyUrl } from "../../../components/bet-links";
+import { nativeSymbol } from "../../../components/deployments";
+import AutoBetPanel from "../../../components/AutoBetPanel";
+import SessionStatsPanel from "../../../components/SessionStatsPanel";
 import Link from 'next/link';
 
-const COIN_CONTRACT_ADDRESS: Hex = "0xD0F83311d99e2DeC0517f49d31e1971590D5C09C";
+type SeriesSideMode = 'fixed' | 'alternating' | 'random';
 
-function CoinFlipGame() {
-  const { address: playerAddress, isConnected } = useAccount();
+// The side for one flip of a series, starting from the side picked on the form
+const seriesSide = (mode: SeriesSideMode, picked: string, round: number): string => {
+  if (mode === 'alternating') return round % 2 === 0 ? picked : String(1 - Number(picked));
+  if (mode === 'random') return String(crypto.getRandomValues(new Uint8Array(1))[0] % 2);
+  return picked;
+};
+
+function CoinFlipGame({ game }: { game: GameDefinition }) {
   const [choice, setChoice] = useState<string>('0');
   const [bet, setBet] = useState<string>('0');
-  const [isLoadingOutcome, setIsLoadingOutcome] = useState<boolean>(false);
-  const [outcome, setOutcome] = useState<{ won: boolean } | null>(null);
-  const [showResultScreen, setShowResultScreen] = useState<boolean>(false);
-
-  // Wagmi hooks for sending the 'flip' transaction
-  const { writeContract: flip, error: flipError} = useWriteContract();
-  
-
-  // State and hooks for managing player's withdrawable balance
-  const [withdrawableBalance, setWithdrawableBalance] = useState<bigint>(0n);
-    const { data: withdrawTxHash, writeContract: withdraw, isPending: isWithdrawTxPending, error: withdrawError } = useWriteContract();
-    const { isLoading: isWithdrawTxConfirming, isSuccess: isWithdrawTxConfirmed } = useWaitForTransactionReceipt({
-        hash: withdrawTxHash,
-    });
-
-  // Use a ref to store the latest playerAddress, useful for event listeners
-  const playerAddressRef = useRef(playerAddress);
-  useEffect(() => {
-    playerAddressRef.current = playerAddress;
-  }, [playerAddress]);
-
-  const fetchPlayerBalance = async () => {
-    if (!playerAddress) {
-      setWithdrawableBalance(0n); // Reset if no player connected
-      return;
-    }
-    try {
-      const balance = await readContract(config, {
-        abi: ABI,
-        address: COIN_CONTRACT_ADDRESS,
-        functionName: 'getPlayerBalance',
-        args: [playerAddress],
-      });
-      setWithdrawableBalance(balance as bigint);
-    } catch (err) {
-      console.error("Error fetching player balance:", err);
-    }
-  };
-
-  useEffect(() => {
-    fetchPlayerBalance()
-  },[isWithdrawTxConfirmed])
+  const [sideMode, setSideMode] = useState<SeriesSideMode>('fixed');
+  const symbol = nativeSymbol(game.chainId);
 
-  useEffect(() => {
-    fetchPlayerBalance()
-  },[isConnected])
+  const session = useGameSession({
+    chainId: game.chainId,
+    contract: game.contract,
+    abi: game.abi,
+    encodeChoice: (side: string) => BigInt(side),
+  });
+  const {
+    phase,
+    playerAddress,
+    isConnected,
+    activeBet,
+    result: outcome,
+    error: txError,
+    clearError,
+    withdrawableBalance,
+    isAwaitingBet,
+    placeBet,
+    withdraw,
+  } = session;
+  const isWithdrawing = phase === 'withdrawing';
 
-  // Listen for the Roll event (this is what determines win/loss)
-  useWatchContractEvent({
-    address: COIN_CONTRACT_ADDRESS,
-    abi: ABI,
-    eventName: 'Roll',
-    enabled: !!playerAddress && isLoadingOutcome, 
-    onLogs(logs) {
-      const relevantLogs = logs.filter(log =>
-        (log.args as { player: string, choice: BigInt, outcome: BigInt, won: boolean }).player === playerAddressRef.current
-      );
+  // Problems with the bet are only pointed out once an amount is picked or a flip is attempted
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const { error: validationError } = useBetValidation(game, playerAddress, bet, BigInt(choice));
+  const betError = submitAttempted || bet !== '0' ? validationError : null;
 
-      if (relevantLogs.length > 0) {
-        const lastLog = relevantLogs[relevantLogs.length - 1];
-        const args = lastLog.args as { won: boolean };
-        setShowResultScreen(true);
-        setOutcome({
-          won: args.won
-        });
-        setIsLoadingOutcome(false); // Outcome received, stop loading
-        fetchPlayerBalance(); // Fetch updated balance after a flip
-      }
-    },
+  // Series mode queues flips one after another, each waiting for its own result
+  const series = useAutoBet({
+    game,
+    session,
+    choice,
+    chooseNext: round => seriesSide(sideMode, choice, round),
+    encodeChoice: (side: string) => BigInt(side),
+    setBetAmount: setBet,
+    betError: validationError,
   });
 
   // Handler for submitting the coin flip transaction
@@ -97,103 +79,23 @@ function CoinFlipGame() {
       // Potentially show a "Connect Wallet" message here instead of just returning
       return;
     }
-    if (parseFloat(bet) <= 0 || isNaN(parseFloat(bet))) {
-      // Potentially show an error for invalid bet
+    setSubmitAttempted(true);
+    if (validationError) {
       return;
     }
 
- 
-    setOutcome(null);
-    setShowResultScreen(false);
-    setIsLoadingOutcome(true); 
-  
-    try {
-      await flip({
-        abi: ABI,
-        address: COIN_CONTRACT_ADDRESS,
-        functionName: 'flip',
-        args: [BigInt(choice)],
-        value: parseEther(bet),
-      });
-    } catch (err) {
-      console.error("Error submitting flip transaction:", err);
-      // Handle error: maybe show a user-friendly message
-    }
+    await placeBet(choice, bet);
   };
-  useEffect(() => {
-    if (flipError) {
-      console.error("Flip transaction write error:", flipError);
-      setIsLoadingOutcome(false);
-      setOutcome(null);
-      setShowResultScreen(false);
-   
-    }
-  }, [flipError]);
-  
-  const handleWithdraw = async () => {
-    if(!playerAddress){
-      return;
-    }
-    if(withdrawableBalance === 0n){
-      return;
-    }
-    try{
-      await withdraw({
-        abi: ABI,
-        address: COIN_CONTRACT_ADDRESS,
-        functionName: 'withdrawWinnings',
-      });
-    } catch(err){
-      console.log("ror withdrawing")
-    }
-  }
-  const handleWithdrawAndPlayAgain = async () => {
-    if (!playerAddress) {
-      return;
-    }
-    if (withdrawableBalance === 0n) {
-      // If no winnings, just reset the screen to allow playing again
-      setOutcome(null);
-      setShowResultScreen(false);
-      setIsLoadingOutcome(false);
-      return;
-    }
 
-    try {
-      // Initiate the withdrawal transaction
-      await withdraw({
-        abi: ABI,
-        address: COIN_CONTRACT_ADDRESS,
-        functionName: 'withdrawWinnings',
-      });
-    } catch (err) {
-      console.error("Error withdrawing:", err);
-      // If withdrawal fails, still allow playing again by resetting the screen
-      setOutcome(null);
-      setShowResultScreen(false);
-      setIsLoadingOutcome(false);
-    }
-  };
- 
-  const isFlipButtonDisabled = isLoadingOutcome || !isConnected;
+  const isFlipButtonDisabled = isAwaitingBet || !isConnected || series.running;
 
   useEffect(() => {
-        if (isWithdrawTxConfirmed) {
-            setOutcome(null);
-            setShowResultScreen(false);
-        } else if (withdrawError) {
-            setOutcome(null);
-            setShowResultScreen(false);
-        }
-    }, [isWithdrawTxConfirmed, withdrawError]);
-
-    useEffect(() => {
-    if (showResultScreen && outcome?.won) {
+    if (phase === 'resolved' && outcome?.won) {
       const audio = new window.Audio('/win.wav');
       audio.volume = 0.5;
       audio.play();
     }
-  }, [showResultScreen, outcome]);
+  }, [phase, outcome]);
 
   const router = useRouter(); // Initialize the router
   const { modal } = router.query; // Destructure the 'modal' query parameter
@@ -240,11 +142,14 @@ function CoinFlipGame() {
         <link href="/favicon.png" rel="icon" />
       </Head>
       <div className="mx-auto w-full max-w-sm sm:max-w-md md:max-w-lg lg:max-w-l xl:max-w-l">
-        {isLoadingOutcome ? (
+        <ErrorBanner error={txError} onDismiss={clearError} />
+        {activeBet?.restored && isAwaitingBet ? (
+          <PendingBetNotice bet={activeBet} />
+        ) : isAwaitingBet ? (
           <div className="flex flex-col items-center justify-center min-h-[200px] gap-5 p-4">
             <Image src="/giftest.gif" alt="loading" height={300} width={300} unoptimized />
           </div>
-        ) : showResultScreen && outcome ? (
+        ) : (phase === 'resolved' || isWithdrawing) && outcome ? (
           <div
             className={`mt-5 p-8 rounded-lg text-center min-h-[200px] flex flex-col items-center justify-center
                           ${
@@ -257,12 +162,15 @@ function CoinFlipGame() {
               {outcome.won ? 'YOU WON!' : 'YOU LOST.'}
             </h2>
             <button
-              onClick={handleWithdrawAndPlayAgain}
+              onClick={withdraw}
               className="px-8 py-3 bg-blue-600 text-white font-bold rounded-lg shadow-lg hover:bg-blue-700 transition-colors duration-200 text-xl disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isWithdrawTxConfirming || isWithdrawTxPending}
+              disabled={isWithdrawing}
             >
-              {isWithdrawTxPending || isWithdrawTxConfirming ? "Withdrawing..." : (withdrawableBalance > 0n ? 'Withdraw winnings' : 'Play Again')}
+              {isWithdrawing ? "Withdrawing..." : (withdrawableBalance > 0n ? 'Withdraw winnings' : 'Play Again')}
             </button>
+            <Link href={verifyUrl(outcome.transactionHash, game.chainId)} className="mt-4 text-sm underline">
+              Verify this result
+            </Link>
           </div>
         ) : (
           <>
@@ -340,7 +248,7 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  1 S
+                  1 {symbol}
                 </button>
                 <button
                   type="button"
@@ -363,7 +271,7 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  5 S
+                  5 {symbol}
                 </button>
                 <button
                   type="button"
@@ -386,7 +294,7 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  10 S
+                  10 {symbol}
                 </button>
                 <button
                   type="button"
@@ -409,7 +317,7 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  20 S
+                  20 {symbol}
                 </button>
                 <button
                   type="button"
@@ -432,7 +340,7 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  30 S
+                  30 {symbol}
                 </button>
                 <button
                   type="button"
@@ -455,9 +363,13 @@ function CoinFlipGame() {
                     md:col-span-2 md:px-4 md:py-4 md:text-xl
                   `}
                 >
-                  69 S
+                  69 {symbol}
                 </button>
 
+                {betError && (
+                  <p className="col-span-2 text-center text-red-400 md:col-span-6">{betError}</p>
+                )}
+
                 <button
                   type="submit"
                   disabled={isFlipButtonDisabled}
@@ -491,6 +403,35 @@ function CoinFlipGame() {
             </div>
           </>
         )}
+
+        <div className="mt-6">
+          <AutoBetPanel
+            autoBet={series}
+            baseBet={bet}
+            disabled={!isConnected || isAwaitingBet || isWithdrawing}
+            symbol={symbol}
+            title="FLIP SERIES"
+            noun="flips"
+            formatChoice={game.formatChoice}
+          >
+            <div className="flex flex-col">
+              <p className="text-sm text-left">Side</p>
+              <select
+                value={sideMode}
+                disabled={series.running}
+                onChange={(e) => setSideMode(e.target.value as SeriesSideMode)}
+                className="bg-gray-300 text-black rounded-sm py-1 px-1"
+              >
+                <option value="fixed">Always {game.formatChoice(Number(choice))}</option>
+                <option value="alternating">Alternate, starting with {game.formatChoice(Number(choice))}</option>
+                <option value="random">Random</option>
+              </select>
+            </div>
+          </AutoBetPanel>
+        </div>
+        <div className="mt-6">
+          <SessionStatsPanel />
+        </div>
       </div>
 
       {/* How To Play Modal */}
@@ -511,10 +452,10 @@ function CoinFlipGame() {
 
       {/* Player Bets Modal */}
       <Modal isOpen={isBetsModalOpen} onClose={closeModal}>
-        <PlayerEvents />
+        <PlayerEvents gameId="coinflip" />
         <div className="flex flex-row justify-between mt-2 text-white items-center">
-          <p>Your withdrawable balance: {formatEther(withdrawableBalance)} Sei</p>
-          <button onClick={handleWithdraw} className="text-white bg-green-700 p-1 px-2 rounded">
+          <p>Your withdrawable balance: {formatEther(withdrawableBalance)} {symbol}</p>
+          <button onClick={withdraw} disabled={isWithdrawing} className="text-white bg-green-700 p-1 px-2 rounded">
             Withdraw
           </button>
         </div>
@@ -523,4 +464,11 @@ function CoinFlipGame() {
   );
 }
 
-export default CoinFlipGame;
\ No newline at end of file
+// Remounted per network so no session state carries over between deployments
+function CoinFlipPage() {
+  const game = useGame('coinflip');
+  if (!game) return <NotDeployed game={getGameSpec('coinflip')} />;
+  return <CoinFlipGame key={game.chainId} game={game} />;
+}
+
+export default CoinFlipPage;
\ No newline at end of file
@@ -1,23 +1,18 @@
 'use client'
-import React, { useState, useEffect, useRef } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent} from 'wagmi';
-import { parseEther, Hex, formatEther } from 'viem';
-import { ABI } from "../../components/coinflip-abi";
+import React from 'react';
+import { useAccount } from 'wagmi';
 import Image from 'next/image';
-import { readContract } from '@wagmi/core';
-import { config } from '../wagmi';
 import Head from 'next/head';
-import Modal from '../../components/Modal';
-import { useRouter } from 'next/router';
-import PlayerEvents from "../../components/coinflipPlayerEvents"
 import CombinedGameEvents from "../../components/combined-events"
+import Leaderboard from "../../components/Leaderboard";
+import { useGames } from "../../components/games";
+import NotDeployed from "../../components/NotDeployed";
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import Link from 'next/link';
 
-const COIN_CONTRACT_ADDRESS: Hex = "0xD0F83311d99e2DeC0517f49d31e1971590D5C09C";
-
 function CoinFlipGame() {
   const { isConnected } = useAccount();
+  const games = useGames();
 
   return (
     <>
@@ -56,26 +51,28 @@ function CoinFlipGame() {
               <div className="flex justify-center text-xl text-white mb-20">
                 <ConnectButton />
             </div>
+          ) : games.length === 0 ? (
+            <div className="mb-20">
+              <NotDeployed />
+            </div>
           ) : (
             <div className="mb-20">
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
-                <Link 
-                  href="/flip" 
-                  className='text-2xl sm:text-3xl text-white hover:bg-blue-200/20 font-bold py-3 px-6 rounded transition duration-200 shadow-lg text-center'
-                >
-                🪙 FLIP
-                </Link>
-                <Link 
-                  href="/dice" 
-                  className="text-2xl sm:text-3xl text-white hover:bg-blue-200/20 font-bold py-3 px-6 rounded transition duration-200 shadow-lg text-center"
-                >
-                 🎲 ROLL
-                </Link>
+                {games.map(game => (
+                  <Link 
+                    key={game.id}
+                    href={game.route} 
+                    className='text-2xl sm:text-3xl text-white hover:bg-blue-200/20 font-bold py-3 px-6 rounded transition duration-200 shadow-lg text-center'
+                  >
+                    {game.icon} {game.playLabel}
+                  </Link>
+                ))}
               </div>
             </div>
           )}
 
   
+            <Leaderboard />
             <CombinedGameEvents />
       
         </div>
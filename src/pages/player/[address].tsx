@@ -0,0 +1,262 @@
+import React, { useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useChainId, useReadContracts } from 'wagmi';
+import { Hex, isAddress } from 'viem';
+import { usePlayerHistory } from '../../../components/roll-indexer';
+import { useGames } from '../../../components/games';
+import { computePlayerStats } from '../../../components/player-stats';
+import { playerAuditTrail } from '../../../components/liability-ledger';
+import PnlChart from '../../../components/PnlChart';
+import { explorerAddressUrl, explorerTxUrl } from '../../../components/explorer';
+import { betUrl } from '../../../components/bet-links';
+import { formatAmount, formatSignedAmount } from '../../../components/format-amount';
+import { nativeSymbol } from '../../../components/deployments';
+import Stat from '../../../components/Stat';
+
+const formatRate = (wins: number, bets: number) => bets === 0 ? '-' : `${((wins / bets) * 100).toFixed(1)}%`;
+
+function PlayerProfile() {
+  const router = useRouter();
+  const rawAddress = typeof router.query.address === 'string' ? router.query.address : undefined;
+  const address = rawAddress && isAddress(rawAddress) ? rawAddress.toLowerCase() : undefined;
+
+  const chainId = useChainId();
+  const symbol = nativeSymbol(chainId);
+  const games = useGames();
+  const { events, loading, error, backfill, backfilling, retryBackfill } = usePlayerHistory(
+    games.map(game => game.contract),
+    address,
+    true
+  );
+  const stats = useMemo(() => computePlayerStats(events), [events]);
+  const auditTrail = useMemo(() => address ? playerAuditTrail(events, address) : [], [events, address]);
+  const { data: contractBalances } = useReadContracts({
+    contracts: games.map(game => ({
+      chainId: game.chainId,
+      abi: game.abi,
+      address: game.contract,
+      functionName: 'getPlayerBalance',
+      args: [address as Hex],
+    })),
+    query: { enabled: !!address },
+  });
+
+  const historyComplete = backfill.length > 0 && backfill.every(progress => progress?.complete);
+  const syncedBlocks = backfill.reduce((sum, progress) => sum + (progress?.syncedBlocks ?? 0), 0);
+  const totalBlocks = backfill.reduce((sum, progress) => sum + (progress?.totalBlocks ?? 0), 0);
+  const percent = totalBlocks ? Math.floor((syncedBlocks / totalBlocks) * 100) : 0;
+
+  const renderStats = () => (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+        <Stat label="Bets" value={stats.bets} />
+        <Stat label="Total wagered" value={`${formatAmount(stats.totalWagered)} ${symbol}`} />
+        <Stat
+          label="Net P&L"
+          value={`${formatSignedAmount(stats.net)} ${symbol}`}
+          className={stats.net >= 0n ? 'text-green-400' : 'text-red-400'}
+        />
+        <Stat label="Total won" value={`${formatAmount(stats.totalWon)} ${symbol}`} className="text-green-400" />
+        <Stat label="Total lost" value={`${formatAmount(stats.totalLost)} ${symbol}`} className="text-red-400" />
+        <Stat label="Win rate" value={formatRate(stats.wins, stats.bets)} />
+        <Stat label="Longest win streak" value={stats.longestWinStreak} />
+        <Stat label="Longest losing streak" value={stats.longestLossStreak} />
+        <Stat
+          label="Biggest win"
+          value={stats.biggestWin ? (
+            <Link href={betUrl(stats.biggestWin.roll.transactionHash, chainId)} className="underline">
+              {stats.biggestWin.game.icon} {formatSignedAmount(stats.biggestWin.profit)} {symbol}
+            </Link>
+          ) : '-'}
+        />
+      </div>
+
+      <h2 className="text-xl font-bold mb-2">P&L over time</h2>
+      <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-700/50 mb-6">
+        <PnlChart points={stats.pnl} symbol={symbol} />
+      </div>
+
+      <h2 className="text-xl font-bold mb-2">By game</h2>
+      <table className="w-full border border-black rounded-lg mb-6">
+        <thead>
+          <tr className="border-b border-black">
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Game</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Bets</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Win rate</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Wagered</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Net</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.perGame.map(gameStats => (
+            <tr key={gameStats.game.id} className="border-b border-gray-700/50">
+              <td className="px-3 py-2">{gameStats.game.icon} {gameStats.game.name}</td>
+              <td className="px-3 py-2">{gameStats.bets}</td>
+              <td className="px-3 py-2">{formatRate(gameStats.wins, gameStats.bets)}</td>
+              <td className="px-3 py-2">{formatAmount(gameStats.wagered)} {symbol}</td>
+              <td className={`px-3 py-2 ${gameStats.net >= 0n ? 'text-green-400' : 'text-red-400'}`}>
+                {formatSignedAmount(gameStats.net)} {symbol}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {stats.diceBuckets.length > 0 && (
+        <>
+          <h2 className="text-xl font-bold mb-2">Dice luck</h2>
+          <p className="text-sm text-gray-300 mb-2">Actual win rate against the win chance picked for those rolls</p>
+          <table className="w-full border border-black rounded-lg mb-6">
+            <thead>
+              <tr className="border-b border-black">
+                <th className="px-3 py-2 text-left text-yellow-300 font-medium">Win chance</th>
+                <th className="px-3 py-2 text-left text-yellow-300 font-medium">Rolls</th>
+                <th className="px-3 py-2 text-left text-yellow-300 font-medium">Expected</th>
+                <th className="px-3 py-2 text-left text-yellow-300 font-medium">Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.diceBuckets.map(bucket => (
+                <tr key={bucket.label} className="border-b border-gray-700/50">
+                  <td className="px-3 py-2">{bucket.label}</td>
+                  <td className="px-3 py-2">{bucket.bets}</td>
+                  <td className="px-3 py-2">{(bucket.expectedWinRate * 100).toFixed(1)}%</td>
+                  <td className={`px-3 py-2 ${bucket.wins / bucket.bets >= bucket.expectedWinRate ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatRate(bucket.wins, bucket.bets)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {auditTrail.length > 0 && renderAuditTrail()}
+    </>
+  );
+
+  const renderAuditTrail = () => (
+    <>
+      <h2 className="text-xl font-bold mb-2">Winnings ledger</h2>
+      <p className="text-sm text-gray-300 mb-2">Every credit and withdrawal of winnings, checked against the contracts</p>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        {games.map((game, index) => {
+          const latest = auditTrail.find(row => row.game.id === game.id);
+          const onchain = contractBalances?.[index]?.result;
+          if (!latest && !onchain) return null;
+          const ledgerBalance = latest?.balance ?? 0n;
+          const matches = typeof onchain !== 'bigint' || onchain === ledgerBalance;
+          return (
+            <Stat
+              key={game.id}
+              label={`${game.icon} ${game.name} unwithdrawn`}
+              value={
+                <>
+                  {formatAmount(typeof onchain === 'bigint' ? onchain : ledgerBalance)} {symbol}
+                  {!matches && (
+                    <span className="block text-xs font-normal text-red-400">
+                      Events add up to {formatAmount(ledgerBalance)} {symbol}{historyComplete ? '' : ', older history still loading'}
+                    </span>
+                  )}
+                </>
+              }
+            />
+          );
+        })}
+      </div>
+      <table className="w-full border border-black rounded-lg mb-6">
+        <thead>
+          <tr className="border-b border-black">
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Time</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Game</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Change</th>
+            <th className="px-3 py-2 text-left text-yellow-300 font-medium">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {auditTrail.map(({ event, game, balance }) => (
+            <tr key={`${event.transactionHash}:${event.logIndex}`} className="border-b border-gray-700/50">
+              <td className="px-3 py-2">
+                {event.eventName === 'WinningsDeposited' ? (
+                  <Link href={betUrl(event.transactionHash, chainId)} className="hover:underline">
+                    {new Date(event.timestamp * 1000).toLocaleString()}
+                  </Link>
+                ) : (
+                  <a href={explorerTxUrl(event.transactionHash, chainId)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    {new Date(event.timestamp * 1000).toLocaleString()}
+                  </a>
+                )}
+              </td>
+              <td className="px-3 py-2">{game.icon} {game.name}</td>
+              <td className={`px-3 py-2 ${event.eventName === 'WinningsDeposited' ? 'text-green-400' : 'text-red-400'}`}>
+                {event.eventName === 'WinningsDeposited' ? `Credited +${formatAmount(event.amount)} ${symbol}` : `Withdrew -${formatAmount(event.amount)} ${symbol}`}
+              </td>
+              <td className="px-3 py-2">{formatAmount(balance)} {symbol}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+
+  const renderBody = () => {
+    if (!address) return <p className="text-center text-red-400">That isn&apos;t a valid address</p>;
+    if (error && stats.bets === 0) return <p className="text-center text-red-400">{error}</p>;
+    if (loading && stats.bets === 0) return <p className="text-center">Loading bets...</p>;
+    if (stats.bets === 0) {
+      return <p className="text-center text-gray-400">{historyComplete ? 'No bets found' : 'No bets found yet'}</p>;
+    }
+    return renderStats();
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Player stats | Broflip</title>
+        <meta
+          content="Lifetime Broflip statistics for a player"
+          name="description"
+        />
+        <link href="/favicon.png" rel="icon" />
+      </Head>
+      <div className="mx-auto w-full max-w-3xl p-4 text-white">
+        <h1 className="text-3xl font-bold text-center mb-1">PLAYER</h1>
+        {address && (
+          <p className="text-center font-mono text-sm mb-6">
+            <a href={explorerAddressUrl(address, chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+              {address}
+            </a>
+          </p>
+        )}
+
+        {address && !historyComplete && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{backfilling ? 'Scanning older blocks, stats will grow as history loads' : 'History scan paused'}</span>
+              <span>{percent}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-700 rounded">
+              <div className="h-2 bg-yellow-400 rounded" style={{ width: `${percent}%` }} />
+            </div>
+            {!backfilling && (
+              <button onClick={retryBackfill} className="mt-2 w-full text-sm bg-gray-700 hover:bg-gray-600 rounded py-1">
+                Resume history scan
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && stats.bets > 0 && <p className="text-xs text-yellow-400 text-center mb-2">{error}</p>}
+        {renderBody()}
+
+        <div className="flex justify-center mt-8">
+          <Link href="/" className="text-white underline">Back to Broflip</Link>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default PlayerProfile;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { formatEther } from 'viem';
+import { RollVerification, verifyRoll } from '../../../components/roll-verification';
+import DetailRow from '../../../components/DetailRow';
+import { explorerAddressUrl, explorerName, explorerTxUrl } from '../../../components/explorer';
+import { useLinkedChainId } from '../../../components/bet-links';
+import { nativeSymbol } from '../../../components/deployments';
+
+const Check = ({ ok, children }: { ok: boolean | null; children: React.ReactNode }) => (
+  <div className={`p-3 rounded-lg border ${
+    ok === null
+      ? 'bg-gray-100 border-gray-400 text-gray-700'
+      : ok
+        ? 'bg-green-100 border-green-400 text-green-700'
+        : 'bg-red-100 border-red-400 text-red-700'
+  }`}>
+    {ok === null ? '➖ ' : ok ? '✅ ' : '❌ '}{children}
+  </div>
+);
+
+function VerifyRoll() {
+  const router = useRouter();
+  const txHash = typeof router.query.txHash === 'string' ? router.query.txHash : undefined;
+  const chainId = useLinkedChainId();
+  const [verification, setVerification] = useState<RollVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!txHash) return;
+    let cancelled = false;
+    setVerification(null);
+    setError(null);
+
+    verifyRoll(txHash, chainId)
+      .then(result => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch(err => {
+        console.error("Error verifying roll:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not verify this roll');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [txHash, chainId]);
+
+  const renderVerification = (v: RollVerification) => {
+    const { game, roll, reveal } = v;
+    return (
+      <>
+        <div className="flex flex-col gap-2 mb-6">
+          <Check ok={v.randomNumberMatches}>
+            {v.randomNumberMatches === null
+              ? "The request mixed in a block hash that couldn't be fetched, so the random number wasn't recomputed"
+              : v.randomNumberMatches
+                ? "Entropy's random number matches the hash of the player's and provider's contributions"
+                : "Entropy's random number does not match the hash of the two contributions"}
+          </Check>
+          <Check ok={v.outcomeMatches}>
+            {v.outcomeMatches === null
+              ? `Unverified: ${game.name}'s outcome rule hasn't been checked against its contract source. Under the rule below the random number gives ${game.formatOutcome(v.derivedOutcome)} (${v.derivedWon ? 'win' : 'loss'}), the contract recorded ${game.formatOutcome(roll.outcome)} (${roll.won ? 'win' : 'loss'})`
+              : v.outcomeMatches
+                ? `The random number gives ${game.formatOutcome(v.derivedOutcome)}, exactly what the contract recorded`
+                : `The random number gives ${game.formatOutcome(v.derivedOutcome)} (${v.derivedWon ? 'win' : 'loss'}), but the contract recorded ${game.formatOutcome(roll.outcome)} (${roll.won ? 'win' : 'loss'})`}
+          </Check>
+        </div>
+
+        <h2 className="text-xl font-bold mb-2">Bet</h2>
+        <DetailRow mono label="Game">{game.icon} {game.name}</DetailRow>
+        <DetailRow mono label="Player">
+          <a href={explorerAddressUrl(roll.player, chainId)} target="_blank" rel="noopener noreferrer" className="underline">{roll.player}</a>
+        </DetailRow>
+        <DetailRow mono label="Amount">{formatEther(roll.amount)} {nativeSymbol(chainId)}</DetailRow>
+        <DetailRow mono label="Choice">{game.formatChoice(roll.choice)}</DetailRow>
+        <DetailRow mono label="Recorded outcome">{game.formatOutcome(roll.outcome)} ({roll.won ? 'Won' : 'Lost'})</DetailRow>
+
+        <h2 className="text-xl font-bold mt-6 mb-2">Pyth Entropy reveal</h2>
+        <DetailRow mono label="Sequence number">{reveal.sequence.toString()}</DetailRow>
+        <DetailRow mono label="Provider">
+          <a href={explorerAddressUrl(reveal.provider, chainId)} target="_blank" rel="noopener noreferrer" className="underline">{reveal.provider}</a>
+        </DetailRow>
+        <DetailRow mono label="User random number">{reveal.userRandomNumber}</DetailRow>
+        <DetailRow mono label="Provider revelation">{reveal.providerRevelation}</DetailRow>
+        <DetailRow mono label="Uses block hash">{reveal.useBlockhash ? `Yes, of block ${reveal.requestBlockNumber}` : 'No'}</DetailRow>
+        <DetailRow mono label="Random number">{reveal.randomNumber}</DetailRow>
+        {v.expectedRandomNumber && <DetailRow mono label="Recomputed">{v.expectedRandomNumber}</DetailRow>}
+
+        <h2 className="text-xl font-bold mt-6 mb-2">How the result is derived</h2>
+        <p className="text-sm text-gray-300 mb-2">
+          {game.name} takes the {game.outcomeRule}
+          {game.outcomeRuleSource
+            ? <> Taken from <a href={game.outcomeRuleSource} target="_blank" rel="noopener noreferrer" className="underline">the verified contract source</a>.</>
+            : ' This rule is assumed, not yet confirmed against the contract source.'}
+        </p>
+        <DetailRow mono label="Random number (decimal)">{BigInt(reveal.randomNumber).toString()}</DetailRow>
+        <DetailRow mono label="Derived outcome">{game.formatOutcome(v.derivedOutcome)} ({v.derivedWon ? 'Won' : 'Lost'})</DetailRow>
+
+        <p className="text-sm text-gray-300 mt-6">
+          <a href={explorerTxUrl(reveal.transactionHash, chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+            View the reveal transaction on {explorerName(chainId)}
+          </a>
+        </p>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Verify a roll | Broflip</title>
+        <meta
+          content="Check that a Broflip result was derived from Pyth Entropy randomness"
+          name="description"
+        />
+        <link href="/favicon.png" rel="icon" />
+      </Head>
+      <div className="mx-auto w-full max-w-2xl p-4 text-white">
+        <h1 className="text-3xl font-bold text-center mb-6">PROVABLY FAIR</h1>
+        {error ? (
+          <p className="text-center text-red-400">{error}</p>
+        ) : verification ? (
+          renderVerification(verification)
+        ) : (
+          <div className="flex justify-center p-4">
+            <div className="bg-gray-300 rounded-xl p-2"><div className="loader"></div></div>
+          </div>
+        )}
+        <div className="flex justify-center mt-8">
+          <Link href="/" className="text-white underline">Back to Broflip</Link>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default VerifyRoll;
@@ -1,18 +1,20 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { webSocket } from 'wagmi';
-import {
-  sei
-} from 'wagmi/chains';
+import { Chain } from 'viem';
+import { Transport, fallback, http, webSocket } from 'wagmi';
+import { DEPLOYMENTS } from '../components/deployments';
+import { APP_CONFIG } from '../components/app-config';
 
 export const config = getDefaultConfig({
   appName: 'pixelcoinflip',
-  projectId: '099e8b5b34a2d1e39fbe28772f347981',
-  chains: [
-    sei
-  ],
+  projectId: APP_CONFIG.walletConnectProjectId,
+  chains: DEPLOYMENTS.map(deployment => deployment.chain) as [Chain, ...Chain[]],
   ssr: true,
-  transports: {
-    [sei.id]: webSocket('wss://sei-mainnet.g.alchemy.com/v2/YUnppYpYem2Jf6S6s_6wVgOC8EQEw-4L'),
-    
-  },
+  transports: Object.fromEntries(DEPLOYMENTS.map(deployment => [
+    deployment.chain.id,
+    fallback([
+      ...(deployment.wsUrl ? [webSocket(deployment.wsUrl)] : []),
+      http(deployment.rpcUrl),
+      ...deployment.fallbackRpcUrls.map(url => http(url)),
+    ]),
+  ])) as Record<number, Transport>,
 });